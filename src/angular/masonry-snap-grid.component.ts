@@ -1,15 +1,32 @@
 import {
   Component,
+  EventEmitter,
   Input,
+  Output,
   OnChanges,
   AfterViewInit,
   OnDestroy,
   ViewChild,
   ElementRef,
-  SimpleChanges,
 } from '@angular/core';
 import MasonrySnapGridLayout from '../core/MasonrySnapGridLayout';
-import type { LayoutMode, MasonryOptions } from '../core/types';
+import type {
+  Breakpoints,
+  ImagesSettledEvent,
+  ItemAnimations,
+  ItemPosition,
+  LastRowBehavior,
+  LayoutMode,
+  LayoutSnapshot,
+  LayoutType,
+  MasonryEventMap,
+  MasonryOptions,
+  PlacementStrategy,
+  Rect,
+  ScrollElement,
+  ScrollToIndexOptions,
+  Stamp,
+} from '../core/types';
 
 /**
  * Angular standalone component for masonry-snap-grid-layout.
@@ -61,42 +78,203 @@ export class MasonrySnapGridComponent<T = unknown>
   /** Minimum column width in pixels. Default: 250 */
   @Input() minColWidth = 250;
 
+  /** Fixed column count (overrides minColWidth). */
+  @Input() columns?: number;
+
+  /** Upper bound for the column count. */
+  @Input() maxColumns?: number;
+
+  /** Upper bound for the column width in pixels. */
+  @Input() maxColWidth?: number;
+
+  /** Per-width column settings keyed by minimum container width in pixels. */
+  @Input() breakpoints?: Breakpoints;
+
   /** Enable smooth animations. Default: true */
   @Input() animate = true;
 
   /** Transition duration in ms. Default: 400 */
   @Input() transitionDuration = 400;
 
+  /** Enter, leave and move animations, in JS and CSS mode (`true` for the defaults). */
+  @Input() animations?: boolean | ItemAnimations;
+
   /**
    * Function that receives a data item and returns an HTMLElement.
    * Required.
    */
   @Input({ required: true }) renderItem!: MasonryOptions<T>['renderItem'];
 
+  /** Stable item key; item updates then reuse elements instead of re-rendering. */
+  @Input() getKey?: MasonryOptions<T>['getKey'];
+
+  /** Show only matching items; the others stay in the DOM, hidden, until they match again. */
+  @Input() filter?: MasonryOptions<T>['filter'];
+
+  /** Order of the shown items; their elements move to the new positions. */
+  @Input() sort?: MasonryOptions<T>['sort'];
+
+  /** Number of columns an item spans (clamped to the column count). */
+  @Input() getItemSpan?: MasonryOptions<T>['getItemSpan'];
+
+  /** Column assignment strategy. Default: 'shortest' */
+  @Input() placement: PlacementStrategy = 'shortest';
+
+  /** Baseline row height in pixels; item slots snap to whole rows. */
+  @Input() snapUnit?: number;
+
+  /** Fixed elements or rectangles (container coordinates) that items flow around. */
+  @Input() stamps?: Stamp[];
+
+  /** Layout algorithm: 'masonry' or 'justified'. Default: 'masonry' */
+  @Input() layoutType: LayoutType = 'masonry';
+
+  /** Preferred row height in pixels (justified only). Default: 240 */
+  @Input() targetRowHeight = 240;
+
+  /** Maximum row height in pixels (justified only). Default: no limit */
+  @Input() maxRowHeight?: number;
+
+  /** Last incomplete row (justified only). Default: 'left' */
+  @Input() lastRow: LastRowBehavior = 'left';
+
+  /**
+   * Width / height ratio of an item. Sizes justified rows (default 1) and lets
+   * masonry items skip DOM measurement.
+   */
+  @Input() getAspectRatio?: MasonryOptions<T>['getAspectRatio'];
+
+  /** Known height of an item at the given width; hinted items are not measured. */
+  @Input() getItemSize?: MasonryOptions<T>['getItemSize'];
+
+  /** Keep only items in and near the viewport in the DOM (JS mode). Default: false */
+  @Input() virtualize = false;
+
+  /** Pixels rendered above and below the viewport when virtualizing. Default: 300 */
+  @Input() overscan = 300;
+
+  /** Height of an unmeasured item at its width, used while virtualizing. */
+  @Input() estimateItemHeight?: MasonryOptions<T>['estimateItemHeight'];
+
+  /** Scroll container to virtualize against (element or getter). Default: the window */
+  @Input() scrollElement?: ScrollElement;
+
+  /** Keep the first visible item in place when a layout moves it (JS mode). Default: true */
+  @Input() scrollAnchoring = true;
+
+  /** Distance in pixels from the end at which `endReached` emits. Default: 300 */
+  @Input() endReachedThreshold = 300;
+
+  /** Show items as placeholders until their images have loaded or failed. Default: false */
+  @Input() waitForImages = false;
+
+  /** Emits once all images of a batch of rendered items have settled (waitForImages only). */
+  @Output() imagesSettled = new EventEmitter<ImagesSettledEvent<T>>();
+
+  /** Emits once per items length when the end of the shortest column nears the viewport. */
+  @Output() endReached = new EventEmitter<void>();
+
+  /** Emits a snapshot of every applied layout. */
+  @Output() layoutComplete = new EventEmitter<LayoutSnapshot>();
+
+  /** Emits when a layout changes the column count (0 for justified rows). */
+  @Output() columnsChange = new EventEmitter<MasonryEventMap<T>['columnsChange']>();
+
+  /** Emits the items and elements of every batch of rendered items. */
+  @Output() itemsRendered = new EventEmitter<MasonryEventMap<T>['itemsRendered']>();
+
+  /** Emits for each item element removed from the DOM (removed or virtualized out). */
+  @Output() itemRemoved = new EventEmitter<MasonryEventMap<T>['itemRemoved']>();
+
+  /** Emits when the grid switches between the CSS, masonry and justified engines. */
+  @Output() engineChange = new EventEmitter<MasonryEventMap<T>['engineChange']>();
+
   @ViewChild('containerRef') private containerRef!: ElementRef<HTMLDivElement>;
 
   private masonry?: MasonrySnapGridLayout<T>;
 
   ngAfterViewInit(): void {
-    this.masonry = new MasonrySnapGridLayout<T>(
-      this.containerRef.nativeElement,
-      {
-        items: this.items,
-        gutter: this.gutter,
-        minColWidth: this.minColWidth,
-        animate: this.animate,
-        transitionDuration: this.transitionDuration,
-        layoutMode: this.layoutMode,
-        renderItem: this.renderItem,
-      }
-    );
+    this.masonry = new MasonrySnapGridLayout<T>(this.containerRef.nativeElement, this.getOptions());
+  }
+
+  ngOnChanges(): void {
+    // Every input maps to an option; setOptions only re-renders what changed
+    this.masonry?.setOptions(this.getOptions());
+  }
+
+  private getOptions(): MasonryOptions<T> {
+    return {
+      items: this.items,
+      gutter: this.gutter,
+      minColWidth: this.minColWidth,
+      columns: this.columns,
+      maxColumns: this.maxColumns,
+      maxColWidth: this.maxColWidth,
+      breakpoints: this.breakpoints,
+      animate: this.animate,
+      transitionDuration: this.transitionDuration,
+      animations: this.animations,
+      layoutMode: this.layoutMode,
+      renderItem: this.renderItem,
+      getKey: this.getKey,
+      filter: this.filter,
+      sort: this.sort,
+      getItemSpan: this.getItemSpan,
+      placement: this.placement,
+      snapUnit: this.snapUnit,
+      stamps: this.stamps,
+      layoutType: this.layoutType,
+      targetRowHeight: this.targetRowHeight,
+      maxRowHeight: this.maxRowHeight,
+      lastRow: this.lastRow,
+      getAspectRatio: this.getAspectRatio,
+      getItemSize: this.getItemSize,
+      virtualize: this.virtualize,
+      overscan: this.overscan,
+      estimateItemHeight: this.estimateItemHeight,
+      scrollElement: this.scrollElement,
+      scrollAnchoring: this.scrollAnchoring,
+      endReachedThreshold: this.endReachedThreshold,
+      // Without an (endReached) binding the grid does not watch scrolling for it
+      onEndReached: this.endReached.observed ? () => this.endReached.emit() : undefined,
+      waitForImages: this.waitForImages,
+      onImagesSettled: (event) => this.imagesSettled.emit(event),
+      on: {
+        layoutComplete: (event) => this.layoutComplete.emit(event),
+        columnsChange: (event) => this.columnsChange.emit(event),
+        itemsRendered: (event) => this.itemsRendered.emit(event),
+        itemRemoved: (event) => this.itemRemoved.emit(event),
+        engineChange: (event) => this.engineChange.emit(event),
+      },
+    };
+  }
+
+  /**
+   * Scroll so the item at `index` is aligned with the start, center or end of
+   * the viewport, even when it is virtualized out of the DOM.
+   */
+  scrollToIndex(index: number, options?: ScrollToIndexOptions): void {
+    this.masonry?.scrollToIndex(index, options);
+  }
+
+  /** Read-only snapshot of the current layout (`null` before the view is initialized). */
+  getLayout(): LayoutSnapshot | null {
+    return this.masonry?.getLayout() ?? null;
+  }
+
+  /** Box of the item at `index` in container coordinates, or `null`. */
+  getItemRect(index: number): ItemPosition | null {
+    return this.masonry?.getItemRect(index) ?? null;
+  }
+
+  /** Index of the item at `(x, y)` in container coordinates, or -1 for none. */
+  getItemAtPoint(x: number, y: number): number {
+    return this.masonry?.getItemAtPoint(x, y) ?? -1;
   }
 
-  ngOnChanges(changes: SimpleChanges): void {
-    if (!this.masonry) return;
-    if (changes['items']) {
-      this.masonry.updateItems(this.items);
-    }
+  /** Indices of the items overlapping `rect` (container coordinates). */
+  getItemsInRect(rect: Rect): number[] {
+    return this.masonry?.getItemsInRect(rect) ?? [];
   }
 
   ngOnDestroy(): void {
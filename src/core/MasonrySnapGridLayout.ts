@@ -1,7 +1,113 @@
-import { MasonryOptions } from './types';
-import { applyMasonryLayout, removeMasonryLayout } from './layoutEngine';
-import { applyCssMasonry, removeCssMasonry } from './cssEngine';
-import { supportsCss } from './utils';
+import {
+  ColumnConfig,
+  ItemComparator,
+  ItemFilter,
+  ItemPosition,
+  LayoutEngine,
+  LayoutSnapshot,
+  MasonryEventListener,
+  MasonryEventMap,
+  MasonryLayoutResult,
+  MasonryLayoutSettings,
+  MasonryOptions,
+  Rect,
+  ResolvedColumns,
+  ScrollToIndexOptions,
+} from './types';
+import {
+  appendMasonryItems,
+  applyMasonryLayout,
+  placeItem,
+  removeMasonryLayout,
+} from './layoutEngine';
+import { applyJustifiedLayout, removeJustifiedLayout } from './justifiedEngine';
+import {
+  applyCssMasonry,
+  applyCssSnapGrid,
+  applyCssSpans,
+  hasColumnSettings,
+  removeCssMasonry,
+  removeCssSnapGrid,
+  removeCssSpans,
+} from './cssEngine';
+import {
+  getEstimatedHeights,
+  getKnownHeights,
+  getShortestColumnHeight,
+  resolveColumns,
+} from './computeLayout';
+import { reconcileElements } from './reconcile';
+import { getVisibleItems } from './itemView';
+import { createItemObserver, ItemObserver } from './itemObserver';
+import { getPendingImages, LOADING_CLASS, waitForImageLoad } from './imageLoader';
+import { getScrollAnchor, restoreScrollAnchor } from './scrollAnchor';
+import { createEmitter } from './emitter';
+import {
+  Animator,
+  createAnimator,
+  ElementBoxes,
+  resolveAnimations,
+  ResolvedAnimations,
+} from './animator';
+import {
+  createLayoutSnapshot,
+  findItemAtPoint,
+  findItemsInRect,
+  getPositionsHeight,
+  measurePositions,
+} from './layoutQuery';
+import {
+  getScrollOffsetTop,
+  getScrollState,
+  getRectWithin,
+  getStampRects,
+  isNearEnd,
+  listenToScroll,
+  resolveScrollElement,
+  scrollToBox,
+  supportsCss,
+} from './utils';
+
+/** Options with every defaulted setting filled in. */
+type ResolvedOptions<T> = MasonryOptions<T> &
+  Required<
+    Pick<
+      MasonryOptions<T>,
+      | 'layoutMode'
+      | 'gutter'
+      | 'minColWidth'
+      | 'animate'
+      | 'transitionDuration'
+      | 'placement'
+      | 'layoutType'
+      | 'targetRowHeight'
+      | 'lastRow'
+      | 'virtualize'
+      | 'overscan'
+      | 'scrollAnchoring'
+      | 'endReachedThreshold'
+    >
+  >;
+
+/** Fill in defaults; `undefined` values fall back to the default too. */
+function resolveOptions<T>(options: MasonryOptions<T>): ResolvedOptions<T> {
+  return {
+    ...options,
+    layoutMode: options.layoutMode ?? 'auto',
+    gutter: options.gutter ?? 16,
+    minColWidth: options.minColWidth ?? 250,
+    animate: options.animate ?? true,
+    transitionDuration: options.transitionDuration ?? 400,
+    placement: options.placement ?? 'shortest',
+    layoutType: options.layoutType ?? 'masonry',
+    targetRowHeight: options.targetRowHeight ?? 240,
+    lastRow: options.lastRow ?? 'left',
+    virtualize: options.virtualize ?? false,
+    overscan: options.overscan ?? 300,
+    scrollAnchoring: options.scrollAnchoring ?? true,
+    endReachedThreshold: options.endReachedThreshold ?? 300,
+  };
+}
 
 /**
  * Vanilla JS masonry grid layout engine.
@@ -22,81 +128,1066 @@ import { supportsCss } from './utils';
  */
 export default class MasonrySnapGridLayout<T> {
   private container: HTMLElement;
-  private options: Required<MasonryOptions<T>>;
-  private elements: HTMLElement[] = [];
+  /** Resolved options; `items` holds the shown items, in the order they are shown */
+  private options: ResolvedOptions<T>;
+  /** Every item passed in, filtered out ones included (while `filter` / `sort` is set) */
+  private allItems: T[];
+  /** Elements of filtered-out items by key (or the item itself), hidden until they match again */
+  private hiddenElements = new Map<unknown, HTMLElement>();
+  /** Element of each item; `undefined` for items virtualized out of the DOM */
+  private elements: (HTMLElement | undefined)[] = [];
+  /** Last computed position of each item (JS engines) */
+  private positions: ItemPosition[] = [];
+  /** Key (or the item itself) of each position, to find items across layouts */
+  private positionKeys: unknown[] = [];
+  /** Laid-out heights of rendered, unhinted items by key (or the item itself) */
+  private heights = new Map<unknown, number>();
+  /** Column width the cached heights were measured at */
+  private heightsColumnWidth = 0;
+  /** Items length `onEndReached` last fired for */
+  private endReachedLength = -1;
+  /** Scroll container listened to (`null` = the window), see `observeScroll` */
+  private scroller?: HTMLElement | null;
+  private stopScrollListener?: () => void;
+  private scrollFrame = 0;
   private resizeObserver?: ResizeObserver;
+  private itemObserver: ItemObserver | null = null;
   private usesCss = false;
+  /** Last JS masonry layout, continued by `appendItems` */
+  private lastLayout: MasonryLayoutResult | null = null;
+  /** Stops waiting for the images of every unsettled batch */
+  private imageWaits = new Set<() => void>();
+  private events = createEmitter<MasonryEventMap<T>>();
+  /** Item of every element handed out by `renderItem` */
+  private elementItems = new WeakMap<HTMLElement, T>();
+  /** Column count of the last layout, for `columnsChange` */
+  private columns = 0;
+  /** Created after the first render, whose items appear without animation */
+  private animator: Animator | null = null;
+  /** Boxes of the rendered items before the current change (`animations`) */
+  private firstBoxes: ElementBoxes | null = null;
+  /** Keys of added items that play the enter animation once rendered */
+  private enteringKeys = new Set<unknown>();
 
   constructor(container: HTMLElement, options: MasonryOptions<T>) {
     this.container = container;
-    this.options = {
-      layoutMode: 'auto',
-      gutter: 16,
-      minColWidth: 250,
-      animate: true,
-      transitionDuration: 400,
-      ...options,
-    };
+    this.options = resolveOptions(options);
+    this.allItems = options.items;
+    this.options.items = getVisibleItems(options.items, options.filter, options.sort);
     this.init();
   }
 
   private init(): void {
     this.usesCss = this.shouldUseCss();
-    this.render();
     this.observeResize();
+    this.render();
+    this.observeScroll();
+    this.animator = createAnimator(this.container);
   }
 
   private shouldUseCss(): boolean {
     if (this.options.layoutMode === 'js') return false;
+    // Justified rows have no CSS equivalent
+    if (this.options.layoutType === 'justified') return false;
+    // Native masonry decides placement itself, so order-preserving strategies need JS
+    if (this.options.placement !== 'shortest') return false;
+    // Native masonry cannot flow around stamps
+    if (this.options.stamps?.length) return false;
     // 'auto' (default): use CSS masonry only when the browser natively supports it
     return supportsCss('grid-template-rows', 'masonry');
   }
 
   private render(): void {
-    this.container.innerHTML = '';
-    this.elements = this.options.items.map((item) => this.options.renderItem(item));
-    this.elements.forEach((el) => this.container.appendChild(el));
+    // Stamp elements placed inside the container survive re-renders
+    const previous = this.getMounted();
+    const keys = new Set(this.options.items.map((item) => this.keyOf(item)));
+    const left = previous.filter((el) => !keys.has(this.keyOf(this.elementItems.get(el) as T)));
+    const laidOut = new Set(this.positionKeys);
+    this.markEntering(this.options.items.filter((item) => !laidOut.has(this.keyOf(item))));
+    const hidden = [...this.hiddenElements.values()];
+    this.hiddenElements.clear();
+
+    this.container.replaceChildren(...this.getStampElements());
+    [...previous, ...hidden].forEach((el) => this.onRemoved(el));
+    this.leave(left);
+    this.cancelImageWaits();
+    if (this.isVirtual()) {
+      // Elements are rendered on demand by layout()
+      this.elements = this.options.items.map(() => undefined);
+    } else {
+      const elements = this.options.items.map((item) => this.options.renderItem(item));
+      elements.forEach((el) => this.container.appendChild(el));
+      this.elements = elements;
+      this.onRendered(this.options.items, elements);
+    }
     this.layout();
   }
 
-  private layout(): void {
-    const { gutter, minColWidth, animate, transitionDuration } = this.options;
+  /** Virtualization only applies to the JS engines. */
+  private isVirtual(): boolean {
+    return this.options.virtualize && !this.usesCss;
+  }
+
+  /**
+   * Render the items at `indices` that have no element yet and remove the
+   * elements of all other items, keeping DOM order. With `place`, new elements
+   * are positioned from the last layout before they are inserted. Returns
+   * whether anything changed.
+   */
+  private syncElements(indices: Set<number>, place: boolean): boolean {
+    const { items, renderItem, transitionDuration, layoutType } = this.options;
+    const animate = this.hasTransition();
+    const created: HTMLElement[] = [];
+    const createdItems: T[] = [];
+    let removed = false;
+    let next: HTMLElement | null = null;
+
+    // Walk backwards so every insertion point is already known
+    for (let i = this.elements.length - 1; i >= 0; i--) {
+      let el = this.elements[i];
+      if (el && !indices.has(i)) {
+        el.remove();
+        this.onRemoved(el);
+        el = this.elements[i] = undefined;
+        removed = true;
+      } else if (!el && indices.has(i)) {
+        el = this.elements[i] = renderItem(items[i]);
+        const position = this.positions[i];
+        if (place && position) {
+          placeItem(el, position, animate, transitionDuration, layoutType === 'justified');
+        }
+        this.container.insertBefore(el, next);
+        created.unshift(el);
+        createdItems.unshift(items[i]);
+      }
+      if (el) next = el;
+    }
+
+    this.onRendered(createdItems, created);
+    return removed || created.length > 0;
+  }
+
+  /** Indices of the items in or near the viewport, from the last layout. */
+  private getVisibleIndices(): Set<number> {
+    const visible = new Set<number>();
+    if (this.positions.length !== this.elements.length) {
+      // No layout for the current items yet: keep what is rendered
+      this.elements.forEach((el, i) => {
+        if (el) visible.add(i);
+      });
+      return visible;
+    }
+
+    const { overscan, scrollElement } = this.options;
+    const scroller = resolveScrollElement(scrollElement);
+    const { scrollTop, viewportHeight } = getScrollState(scroller);
+    const top = scrollTop - getScrollOffsetTop(this.container, scroller) - overscan;
+    const bottom = top + viewportHeight + overscan * 2;
+    this.positions.forEach((pos, i) => {
+      if (pos.y + pos.height >= top && pos.y <= bottom) visible.add(i);
+    });
+    return visible;
+  }
+
+  /**
+   * Items that need an element before the engine runs: everything without
+   * virtualization; otherwise the rendered items plus every item whose height
+   * is neither hinted, cached nor estimated, so it can be measured.
+   */
+  private getRequiredIndices(): Set<number> {
+    const { items, layoutType, estimateItemHeight } = this.options;
+    if (!this.isVirtual()) return new Set(items.keys());
+
+    // Justified rows are sized from aspect ratios, so nothing needs measuring
+    const measured = layoutType !== 'justified' && !estimateItemHeight;
+    const hinted = measured ? this.getHintedHeights() : null;
+    const required = new Set<number>();
+    items.forEach((item, i) => {
+      const unknown =
+        hinted !== null && hinted[i] === undefined && !this.heights.has(this.keyOf(item));
+      if (this.elements[i] || unknown) required.add(i);
+    });
+    return required;
+  }
+
+  /** Cache the heights the JS engine laid the rendered, unhinted items from `start` on out with. */
+  private cacheHeights(start: number, laidOut: number[], hinted: (number | undefined)[]): void {
+    laidOut.forEach((height, k) => {
+      if (!this.elements[start + k] || hinted[k] !== undefined) return;
+      this.heights.set(this.keyOf(this.options.items[start + k]), height);
+    });
+  }
+
+  /**
+   * Item size changes update only those items' cached heights, then the grid
+   * is laid out from cached heights without measuring the other items.
+   */
+  private resizeItems(heights: Map<HTMLElement, number>): void {
+    const { items } = this.options;
+    heights.forEach((height, el) => {
+      const i = this.elements.indexOf(el);
+      if (i >= 0 && height > 0) this.heights.set(this.keyOf(items[i]), height);
+    });
+    this.layout(false);
+  }
 
-    if (this.usesCss) {
-      applyCssMasonry(this.container, gutter, minColWidth);
+  /** Forget cached heights of items that are gone. */
+  private pruneHeights(): void {
+    if (this.heights.size === 0) return;
+    const keys = new Set(this.getAllItems().map((item) => this.keyOf(item)));
+    this.heights.forEach((_, key) => {
+      if (!keys.has(key)) this.heights.delete(key);
+    });
+  }
+
+  /** Render what scrolled into view and drop what scrolled out. */
+  private updateVisibleItems(): void {
+    this.scrollFrame = 0;
+    if (this.isVirtual() && this.syncElements(this.getVisibleIndices(), true)) this.trackItems();
+  }
+
+  private keyOf(item: T): unknown {
+    return this.options.getKey ? this.options.getKey(item) : item;
+  }
+
+  /** Whether `filter` or `sort` decide which items are shown, and in what order. */
+  private hasView(): boolean {
+    return Boolean(this.options.filter || this.options.sort);
+  }
+
+  /** Every item, shown or filtered out, in the order they were passed. */
+  private getAllItems(): T[] {
+    return this.hasView() ? this.allItems : this.options.items;
+  }
+
+  /** Rendered elements, in item order. */
+  private getMounted(): HTMLElement[] {
+    return this.elements.filter((el): el is HTMLElement => el !== undefined);
+  }
+
+  /** Newly rendered elements wait for their images and are announced. */
+  private onRendered(items: T[], elements: HTMLElement[]): void {
+    if (elements.length === 0) return;
+    elements.forEach((el, i) => this.elementItems.set(el, items[i]));
+    this.watchImages(items, elements);
+    this.emit('itemsRendered', () => ({ items, elements }));
+  }
+
+  /** Announce an element that has left the DOM. */
+  private onRemoved(element: HTMLElement): void {
+    const item = this.elementItems.get(element);
+    if (item === undefined && !this.elementItems.has(element)) return;
+    this.elementItems.delete(element);
+    this.emit('itemRemoved', () => ({ item: item as T, element }));
+  }
+
+  /** Emit `columnsChange` when the column count changed, then `layoutComplete`. */
+  private emitLayout(): void {
+    const columns = this.getResolvedColumns()?.columns ?? 0;
+    if (columns !== this.columns) {
+      const previous = this.columns;
+      this.columns = columns;
+      this.emit('columnsChange', () => ({ columns, previous }));
+    }
+    this.emit('layoutComplete', () => this.getLayout());
+  }
+
+  /**
+   * Call the `on` option's listener and the `on()` listeners of `type`. The
+   * payload is only built when someone listens.
+   */
+  private emit<K extends keyof MasonryEventMap<T>>(
+    type: K,
+    createEvent: () => MasonryEventMap<T>[K]
+  ): void {
+    const handler = this.options.on?.[type] as MasonryEventListener<T, K> | undefined;
+    if (!handler && !this.events.has(type)) return;
+
+    const event = createEvent();
+    handler?.(event);
+    this.events.emit(type, event);
+  }
+
+  /**
+   * Mark the rendered `elements` of `items` as placeholders until their images
+   * settle (`waitForImages` only). Settling changes an item's height, which the
+   * item observer turns into a re-layout.
+   */
+  private watchImages(items: T[], elements: HTMLElement[]): void {
+    if (!this.options.waitForImages || elements.length === 0) return;
+
+    elements.forEach((el) => {
+      if (getPendingImages(el).length > 0) el.classList.add(LOADING_CLASS);
+    });
+
+    // A batch without pending images settles (and reports) synchronously
+    let cancel: (() => void) | undefined;
+    let settled = false;
+    cancel = waitForImageLoad(
+      elements,
+      (el) => el.classList.remove(LOADING_CLASS),
+      (failed) => {
+        settled = true;
+        if (cancel) this.imageWaits.delete(cancel);
+        this.options.onImagesSettled?.({ items, failed });
+      }
+    );
+    if (!settled) this.imageWaits.add(cancel);
+  }
+
+  private cancelImageWaits(): void {
+    this.imageWaits.forEach((cancel) => cancel());
+    this.imageWaits.clear();
+  }
+
+  /**
+   * Lay out every item. Without `remeasure`, rendered items with a cached height
+   * are placed from it instead of being measured.
+   */
+  private layout(remeasure = true): void {
+    const { gutter, minColWidth, transitionDuration, layoutType } = this.options;
+    const animate = this.hasTransition();
+    this.captureBoxes();
+    const spans = this.getSpans();
+    const virtual = this.isVirtual();
+    // The first visible item stays in place however far this layout moves it
+    const scroller = resolveScrollElement(this.options.scrollElement);
+    const anchor = this.options.scrollAnchoring
+      ? getScrollAnchor(this.container, scroller, this.positions, this.positionKeys)
+      : null;
+    this.lastLayout = null;
+
+    // Cached heights are only valid for the column width they were measured at
+    const { columnWidth } = resolveColumns(this.container.clientWidth, this.getColumnConfig());
+    if (columnWidth !== this.heightsColumnWidth) this.heights.clear();
+    this.heightsColumnWidth = columnWidth;
+    let rendered = this.syncElements(this.getRequiredIndices(), false);
+
+    if (layoutType === 'justified') {
+      const { items, getAspectRatio, targetRowHeight, maxRowHeight, lastRow } = this.options;
+      const layout = applyJustifiedLayout(
+        this.container,
+        this.elements,
+        gutter,
+        animate,
+        transitionDuration,
+        {
+          aspectRatios: items.map((item) => getAspectRatio?.(item) ?? 1),
+          targetRowHeight,
+          maxRowHeight,
+          lastRow,
+        }
+      );
+      this.positions = layout?.positions ?? [];
+    } else if (this.usesCss) {
+      const config = this.getColumnConfig();
+      const resolved = resolveColumns(this.container.clientWidth, config);
+      const elements = this.getMounted();
+      applyCssMasonry(
+        this.container,
+        resolved.gutter,
+        minColWidth,
+        hasColumnSettings(config) ? resolved.columns : undefined
+      );
+      applyCssSpans(elements, spans, resolved.columns);
+      if (this.options.snapUnit) {
+        applyCssSnapGrid(this.container, elements, this.options.snapUnit, resolved.gutter);
+      } else {
+        removeCssSnapGrid(this.container, elements);
+      }
+      this.positions = [];
     } else {
-      applyMasonryLayout(
+      const layout = applyMasonryLayout(
         this.container,
         this.elements,
         minColWidth,
         gutter,
         animate,
-        transitionDuration
+        transitionDuration,
+        this.getMasonrySettings(0, remeasure)
       );
+      if (layout) this.cacheHeights(0, layout.itemHeights, this.getHintedHeights());
+      this.lastLayout = layout;
+      this.positions = layout?.positions ?? [];
+    }
+    this.positionKeys = this.options.items.map((item) => this.keyOf(item));
+    if (anchor) restoreScrollAnchor(anchor, scroller, this.positions, this.positionKeys);
+
+    if (virtual) rendered = this.syncElements(this.getVisibleIndices(), true) || rendered;
+    // The item observer already holds the heights of items that stayed rendered
+    if (remeasure || rendered) this.trackItems();
+    this.playAnimations();
+    this.emitLayout();
+    this.checkEndReached();
+  }
+
+  /** The `animate` transform transition, unless `animations` replaces it. */
+  private hasTransition(): boolean {
+    return this.options.animate && !this.options.animations;
+  }
+
+  private getAnimations(): ResolvedAnimations | null {
+    return resolveAnimations(this.options.animations, this.options.transitionDuration);
+  }
+
+  /** Record where the rendered items are before a change, for `animations`. */
+  private captureBoxes(): void {
+    if (!this.animator || this.firstBoxes || !this.getAnimations()) return;
+    this.firstBoxes = this.animator.measure(this.getMounted());
+  }
+
+  /** Play the enter animation for `items` once they are laid out. */
+  private markEntering(items: T[]): void {
+    if (this.firstBoxes) items.forEach((item) => this.enteringKeys.add(this.keyOf(item)));
+  }
+
+  /**
+   * Fade elements out over the slot they leave, then `done` each of them.
+   * Without `done` they were detached already and are detached again after
+   * the animation.
+   */
+  private leave(elements: HTMLElement[], done?: (el: HTMLElement) => void): void {
+    const animations = this.getAnimations();
+    if (this.animator && this.firstBoxes && animations && elements.length > 0) {
+      this.animator.leave(elements, this.firstBoxes, animations, done);
+    } else if (done) {
+      elements.forEach(done);
+    }
+  }
+
+  /** Hide the elements of filtered-out items, keeping them until they match again. */
+  private hide(elements: Map<unknown, HTMLElement>): void {
+    elements.forEach((el, key) => this.hiddenElements.set(key, el));
+    this.leave([...elements.values()], (el) => (el.style.display = 'none'));
+  }
+
+  /** Show the hidden element of the item with `key` again, if there is one. */
+  private unhide(key: unknown): HTMLElement | undefined {
+    const el = this.hiddenElements.get(key);
+    if (!el) return undefined;
+    this.hiddenElements.delete(key);
+    this.animator?.cancelLeave([el]);
+    el.style.display = '';
+    return el;
+  }
+
+  /** Slide moved items from their captured boxes and play the enter animations. */
+  private playAnimations(): void {
+    const first = this.firstBoxes;
+    const entering = this.enteringKeys;
+    this.firstBoxes = null;
+    this.enteringKeys = new Set();
+
+    const animations = this.getAnimations();
+    if (!this.animator || !first || !animations) return;
+    const { items } = this.options;
+    const added = this.elements.flatMap((el, i) =>
+      el && entering.has(this.keyOf(items[i])) ? [el] : []
+    );
+    this.animator.play(first, this.getMounted(), added, animations);
+  }
+
+  /**
+   * Call `onEndReached` once per items length when the end of the shortest
+   * column (the content height outside JS masonry) nears the viewport.
+   */
+  private checkEndReached(): void {
+    const { onEndReached, endReachedThreshold, scrollElement, items } = this.options;
+    if (!onEndReached || items.length === this.endReachedLength) return;
+
+    const end = this.lastLayout
+      ? getShortestColumnHeight(this.lastLayout)
+      : this.container.offsetHeight;
+    const scroller = resolveScrollElement(scrollElement);
+    if (!isNearEnd(this.container, scroller, end, endReachedThreshold)) return;
+
+    this.endReachedLength = items.length;
+    onEndReached();
+  }
+
+  /**
+   * Observe item sizes wherever they affect the layout: JS masonry and the CSS
+   * snap grid. Virtualized items placed from cached heights report right away
+   * when their rendered height differs.
+   */
+  private trackItems(): void {
+    const { layoutType, snapUnit, items } = this.options;
+    const sized = layoutType !== 'justified' && (!this.usesCss || snapUnit !== undefined);
+    if (!sized || !this.isVirtual()) {
+      this.itemObserver?.track(sized ? this.getMounted() : []);
+      return;
+    }
+
+    // Items rendered while scrolling were placed with their cached or estimated height
+    const { estimateItemHeight } = this.options;
+    const hinted = this.getHintedHeights();
+    const laidOut = this.elements.flatMap((el, i) => {
+      if (!el) return [];
+      if (hinted[i] !== undefined) return [undefined];
+      const width = this.positions[i]?.width;
+      const estimated =
+        estimateItemHeight && width !== undefined ? estimateItemHeight(items[i], i, width) : undefined;
+      return [this.heights.get(this.keyOf(items[i])) ?? estimated];
+    });
+    this.itemObserver?.track(this.getMounted(), laidOut);
+  }
+
+  /**
+   * Place the items from `start` on top of the last JS layout. Returns false
+   * when a full layout is needed (CSS or justified mode, changed columns, ...).
+   */
+  private appendLayout(start: number): boolean {
+    if (this.isVirtual()) return false;
+    if (!this.lastLayout || this.lastLayout.positions.length !== start) return false;
+
+    const { gutter, minColWidth, transitionDuration } = this.options;
+    const animate = this.hasTransition();
+    const layout = appendMasonryItems(
+      this.container,
+      this.lastLayout,
+      this.elements.slice(start),
+      minColWidth,
+      gutter,
+      animate,
+      transitionDuration,
+      this.getMasonrySettings(start)
+    );
+    if (!layout) return false;
+
+    this.cacheHeights(start, layout.itemHeights, this.getHintedHeights().slice(start));
+    this.lastLayout = layout;
+    this.positions = layout.positions;
+    this.positionKeys = this.options.items.map((item) => this.keyOf(item));
+    return true;
+  }
+
+  /** JS engine settings for the items from `start` on. */
+  private getMasonrySettings(start: number, remeasure = true): MasonryLayoutSettings {
+    const { placement, snapUnit, stamps = [] } = this.options;
+    const config = { ...this.getColumnConfig(), spans: this.getSpans().slice(start) };
+    const hinted = this.getHintedHeights().slice(start);
+    return {
+      ...config,
+      placement,
+      snapUnit,
+      knownHeights: this.getLayoutHeights(start, hinted, config, remeasure),
+      stamps: getStampRects(this.container, stamps),
+    };
+  }
+
+  /**
+   * Known heights from `start` on: hinted heights, the cached heights of
+   * rendered items unless they are remeasured, and while virtualizing the
+   * cached or estimated height of items virtualized out of the DOM.
+   */
+  private getLayoutHeights(
+    start: number,
+    hinted: (number | undefined)[],
+    config: ColumnConfig & { spans: number[] },
+    remeasure: boolean
+  ): (number | undefined)[] {
+    const { items, estimateItemHeight } = this.options;
+    const virtual = this.isVirtual();
+    const added = items.slice(start);
+    const estimated =
+      virtual && estimateItemHeight
+        ? getEstimatedHeights(added, this.container.clientWidth, config, estimateItemHeight, start)
+        : [];
+    return added.map((item, k) => {
+      if (hinted[k] !== undefined) return hinted[k];
+      const rendered = this.elements[start + k] !== undefined;
+      if (rendered ? remeasure : !virtual) return undefined;
+      return this.heights.get(this.keyOf(item)) ?? (rendered ? undefined : estimated[k]);
+    });
+  }
+
+  /** Heights known from size hints, in item order (`undefined` = measure). */
+  private getHintedHeights(): (number | undefined)[] {
+    const { items, getItemSize, getAspectRatio } = this.options;
+    const config = { ...this.getColumnConfig(), spans: this.getSpans() };
+    return getKnownHeights(items, this.container.clientWidth, config, {
+      getItemSize,
+      getAspectRatio,
+    });
+  }
+
+  /** Engine currently responsible for the container's layout styles. */
+  private getEngine(): LayoutEngine {
+    if (this.usesCss) return 'css';
+    return this.options.layoutType === 'justified' ? 'justified' : 'masonry';
+  }
+
+  /** Remove the styles set by `engine` from the container and the items. */
+  private removeLayout(engine: LayoutEngine): void {
+    const elements = [...this.getMounted(), ...this.hiddenElements.values()];
+    if (engine === 'css') {
+      removeCssMasonry(this.container);
+      removeCssSpans(elements);
+      removeCssSnapGrid(this.container, elements);
+    } else if (engine === 'justified') {
+      removeJustifiedLayout(this.container, elements);
+    } else {
+      removeMasonryLayout(this.container, elements);
     }
+    this.lastLayout = null;
+  }
+
+  private getColumnConfig(): ColumnConfig {
+    const { gutter, minColWidth, columns, maxColumns, maxColWidth, breakpoints } = this.options;
+    return { gutter, minColWidth, columns, maxColumns, maxColWidth, breakpoints };
+  }
+
+  private getSpans(): number[] {
+    const { getItemSpan, items } = this.options;
+    return getItemSpan ? items.map((item) => getItemSpan(item)) : [];
+  }
+
+  private getStampElements(): HTMLElement[] {
+    const { stamps = [] } = this.options;
+    return stamps.filter(
+      (stamp): stamp is HTMLElement =>
+        stamp instanceof HTMLElement && stamp.parentElement === this.container
+    );
   }
 
   private observeResize(): void {
     if (typeof ResizeObserver === 'undefined') return;
     this.resizeObserver = new ResizeObserver(() => this.layout());
     this.resizeObserver.observe(this.container);
+    // Item size changes are coalesced into one re-layout per frame
+    this.itemObserver = createItemObserver((heights) => this.resizeItems(heights));
+  }
+
+  /**
+   * Listen to the scroll container (`scrollElement`, default the window) while
+   * virtualizing or waiting for `onEndReached`; stop otherwise.
+   */
+  private observeScroll(
+    active = this.options.virtualize || this.options.onEndReached !== undefined
+  ): void {
+    const listen = active && typeof window !== 'undefined';
+    const scroller = listen ? resolveScrollElement(this.options.scrollElement) : undefined;
+    if (scroller === this.scroller) return;
+
+    this.stopScrollListener?.();
+    this.stopScrollListener = undefined;
+    cancelAnimationFrame(this.scrollFrame);
+    this.scrollFrame = 0;
+    this.scroller = scroller;
+    if (scroller !== undefined) this.stopScrollListener = listenToScroll(scroller, this.onScroll);
   }
 
-  /** Replace all items and re-render the grid. */
+  /**
+   * Scroll and viewport changes update the rendered items and check the end
+   * once per frame.
+   */
+  private onScroll = (): void => {
+    if (this.scrollFrame) return;
+    this.scrollFrame = requestAnimationFrame(() => {
+      this.updateVisibleItems();
+      this.checkEndReached();
+    });
+  };
+
+  /**
+   * Replace all items and re-layout the grid. Without `getKey` every element is
+   * rendered again; with it, elements are reused by key and only new items are
+   * rendered, so moved items animate to their new position. While `filter` or
+   * `sort` is set, elements are reused by key or by identity, and those of
+   * filtered-out items are hidden instead of removed. While virtualizing, new
+   * items are rendered when the layout needs them.
+   */
   updateItems(newItems: T[]): void {
-    this.options.items = newItems;
-    this.render();
+    this.captureBoxes();
+    if (!this.options.getKey && !this.hasView()) {
+      this.options.items = newItems;
+      this.pruneHeights();
+      this.render();
+      return;
+    }
+    this.reconcileItems(newItems);
   }
 
-  /** Clean up DOM mutations and stop observing resize. */
-  destroy(): void {
-    this.resizeObserver?.disconnect();
-    if (this.usesCss) {
-      removeCssMasonry(this.container);
+  /**
+   * Show `newItems` through `filter` / `sort`, reusing elements by key (or
+   * identity): new items are rendered, gone ones leave, filtered-out ones are
+   * hidden and hidden ones that match again are shown.
+   */
+  private reconcileItems(newItems: T[]): void {
+    const { renderItem, filter, sort } = this.options;
+    this.allItems = newItems;
+    const shown = getVisibleItems(newItems, filter, sort);
+    const byKey = new Map<unknown, HTMLElement | undefined>();
+    this.options.items.forEach((item, i) => byKey.set(this.keyOf(item), this.elements[i]));
+
+    // Each element is reused at most once, so duplicate keys get fresh elements
+    const virtual = this.isVirtual();
+    const renderedItems: T[] = [];
+    const rendered: HTMLElement[] = [];
+    const elements = shown.map((item) => {
+      const key = this.keyOf(item);
+      if (!byKey.has(key)) this.markEntering([item]);
+      const reused = byKey.get(key) ?? this.unhide(key);
+      byKey.delete(key);
+      if (reused || virtual) return reused;
+
+      const el = renderItem(item);
+      renderedItems.push(item);
+      rendered.push(el);
+      return el;
+    });
+
+    // Items that are still there but no longer shown were filtered out
+    const keys = new Set(newItems.map((item) => this.keyOf(item)));
+    const hidden = new Map<unknown, HTMLElement>();
+    const left: HTMLElement[] = [];
+    byKey.forEach((el, key) => {
+      if (el && keys.has(key)) hidden.set(key, el);
+      else if (el) left.push(el);
+    });
+    this.hiddenElements.forEach((el, key) => {
+      if (keys.has(key)) return;
+      this.hiddenElements.delete(key);
+      el.remove();
+      this.onRemoved(el);
+    });
+
+    const hiding = new Set(hidden.values());
+    reconcileElements(
+      this.container,
+      this.getMounted().filter((el) => !hiding.has(el)),
+      elements.filter((el): el is HTMLElement => el !== undefined)
+    );
+    left.forEach((el) => this.onRemoved(el));
+    this.leave(left);
+    this.hide(hidden);
+    this.onRendered(renderedItems, rendered);
+    this.options.items = shown;
+    this.elements = elements;
+    this.pruneHeights();
+    this.layout();
+  }
+
+  /**
+   * Show only the items matching `predicate`, or every item for `null`.
+   * Filtered-out items keep their element, hidden until they match again, and
+   * the others move to their new positions.
+   */
+  filter(predicate: ItemFilter<T> | null): void {
+    this.setOptions({ filter: predicate ?? undefined });
+  }
+
+  /**
+   * Order the shown items with `comparator`, or restore the order of the items
+   * for `null`. Elements are reused and move to their new positions.
+   */
+  sort(comparator: ItemComparator<T> | null): void {
+    this.setOptions({ sort: comparator ?? undefined });
+  }
+
+  /**
+   * Append items to the end of the grid. In JS mode the existing items keep
+   * their positions and only the new ones are rendered, measured and placed.
+   */
+  appendItems(newItems: T[]): void {
+    if (newItems.length === 0) return;
+    if (this.hasView()) {
+      this.updateItems([...this.allItems, ...newItems]);
+      return;
+    }
+
+    this.captureBoxes();
+    this.markEntering(newItems);
+    const start = this.elements.length;
+    this.options.items = [...this.options.items, ...newItems];
+    if (this.isVirtual()) {
+      this.elements = [...this.elements, ...newItems.map(() => undefined)];
+      this.layout();
+      return;
+    }
+
+    const added = newItems.map((item) => this.options.renderItem(item));
+    added.forEach((el) => this.container.appendChild(el));
+    this.elements = [...this.elements, ...added];
+    this.onRendered(newItems, added);
+
+    if (this.appendLayout(start)) {
+      this.trackItems();
+      this.playAnimations();
+      this.emitLayout();
+      this.checkEndReached();
     } else {
-      removeMasonryLayout(this.container, this.elements);
+      this.layout();
     }
-    this.container.innerHTML = '';
+  }
+
+  /**
+   * Insert items before `index` (floored, clamped to the item count). Only the
+   * new elements are rendered; inserting at the end places them incrementally.
+   * A non-finite `index` is ignored.
+   */
+  insertAt(index: number, newItems: T[]): void {
+    if (newItems.length === 0 || !Number.isFinite(index)) return;
+
+    const at = Math.max(0, Math.min(Math.floor(index), this.elements.length));
+    if (at === this.elements.length) {
+      this.appendItems(newItems);
+      return;
+    }
+    if (this.hasView()) {
+      // Before the shown item at `at`, among all items; `sort` may still move them
+      const i = this.allItems.indexOf(this.options.items[at]);
+      this.updateItems([...this.allItems.slice(0, i), ...newItems, ...this.allItems.slice(i)]);
+      return;
+    }
+
+    this.captureBoxes();
+    this.markEntering(newItems);
+    const { items } = this.options;
+    this.options.items = [...items.slice(0, at), ...newItems, ...items.slice(at)];
+    if (this.isVirtual()) {
+      this.elements.splice(at, 0, ...newItems.map(() => undefined));
+      this.layout();
+      return;
+    }
+
+    const added = newItems.map((item) => this.options.renderItem(item));
+    const anchor = this.elements[at] ?? null;
+    added.forEach((el) => this.container.insertBefore(el, anchor));
+    this.elements.splice(at, 0, ...added);
+    this.onRendered(newItems, added);
+    this.layout();
+  }
+
+  /** Insert items at the start of the grid. */
+  prepend(newItems: T[]): void {
+    this.insertAt(0, newItems);
+  }
+
+  /**
+   * Remove the items matching `predicate`, or at the given indices, and return
+   * them. Only their elements are detached.
+   */
+  remove(target: ((item: T, index: number) => boolean) | number[]): T[] {
+    const { items } = this.options;
+    const indices = new Set(
+      typeof target === 'function'
+        ? items.flatMap((item, i) => (target(item, i) ? [i] : []))
+        : target
+    );
+    const removed = items.filter((_, i) => indices.has(i));
+    if (removed.length === 0) return removed;
+    if (this.hasView()) {
+      const gone = new Set(removed);
+      this.updateItems(this.allItems.filter((item) => !gone.has(item)));
+      return removed;
+    }
+
+    this.captureBoxes();
+    const left = this.elements.filter(
+      (el, i): el is HTMLElement => el !== undefined && indices.has(i)
+    );
+    left.forEach((el) => {
+      el.remove();
+      this.onRemoved(el);
+    });
+    this.leave(left);
+    this.options.items = items.filter((_, i) => !indices.has(i));
+    this.elements = this.elements.filter((_, i) => !indices.has(i));
+    this.pruneHeights();
+    this.layout();
+    return removed;
+  }
+
+  /**
+   * Move the item at `from` to index `to` (clamped), moving only its element.
+   * Fractional indices are floored; an out-of-range `from` is ignored.
+   */
+  move(from: number, to: number): void {
+    const count = this.elements.length;
+    const source = Math.floor(from);
+    // Also rejects NaN
+    if (!(source >= 0 && source < count)) return;
+    const target = Math.max(0, Math.min(Math.floor(to), count - 1));
+    if (target === source) return;
+    if (this.hasView()) {
+      // Next to the item it takes the place of, among all items; `sort` still decides
+      const moved = this.options.items[source];
+      const rest = this.allItems.filter((item) => item !== moved);
+      const at = rest.indexOf(this.options.items[target]) + (target > source ? 1 : 0);
+      this.updateItems([...rest.slice(0, at), moved, ...rest.slice(at)]);
+      return;
+    }
+
+    this.captureBoxes();
+    const items = [...this.options.items];
+    const [item] = items.splice(source, 1);
+    const [el] = this.elements.splice(source, 1);
+    items.splice(target, 0, item);
+    this.elements.splice(target, 0, el);
+
+    // Insert before the next rendered item, or after the last one
+    if (el) {
+      const next = this.elements.slice(target + 1).find((other) => other !== undefined);
+      this.container.insertBefore(el, next ?? null);
+    }
+    this.options.items = items;
+    this.layout();
+  }
+
+  /**
+   * Replace the item at `index`, rendering a new element for it (when rendered).
+   * A fractional `index` is floored; an out-of-range one is ignored.
+   */
+  replaceItem(index: number, item: T): void {
+    const at = Math.floor(index);
+    // Also rejects NaN
+    if (!(at >= 0 && at < this.elements.length)) return;
+
+    this.captureBoxes();
+    this.markEntering([item]);
+    this.heights.delete(this.keyOf(this.options.items[at]));
+    const current = this.elements[at];
+    if (current) {
+      const el = this.options.renderItem(item);
+      current.replaceWith(el);
+      this.elements[at] = el;
+      this.onRemoved(current);
+      this.leave([current]);
+      this.onRendered([item], [el]);
+    }
+    const previous = this.options.items[at];
+    this.options.items = this.options.items.map((other, i) => (i === at ? item : other));
+    if (this.hasView()) {
+      // The new item may be filtered out or sorted elsewhere; its element is reused
+      const i = this.allItems.indexOf(previous);
+      this.updateItems(this.allItems.map((other, k) => (k === i ? item : other)));
+      return;
+    }
+    this.layout();
+  }
+
+  /**
+   * Scroll the window (or `scrollElement`) so the item at `index` is aligned
+   * with the start, center or end of the viewport. Uses the computed position,
+   * so virtualized items can be reached too. Out-of-range indices are ignored.
+   */
+  scrollToIndex(index: number, options: ScrollToIndexOptions = {}): void {
+    const el = this.elements[index];
+    const box = this.positions[index] ?? (el && getRectWithin(el, this.container));
+    if (!box) return;
+
+    const scroller = resolveScrollElement(this.options.scrollElement);
+    scrollToBox(this.container, scroller, box.y, box.height, options);
+  }
+
+  /**
+   * Read-only snapshot of the current layout: column count and width, the
+   * position of every item (virtualized ones included) and the total height.
+   */
+  getLayout(): LayoutSnapshot {
+    const positions = this.getPositions();
+    const height = this.lastLayout?.height ?? getPositionsHeight(positions);
+    return createLayoutSnapshot(this.getResolvedColumns(), this.options.gutter, positions, height);
+  }
+
+  /** Columns of the current layout; `null` for justified rows. */
+  private getResolvedColumns(): ResolvedColumns | null {
+    if (this.options.layoutType === 'justified') return null;
+    return this.lastLayout ?? resolveColumns(this.container.clientWidth, this.getColumnConfig());
+  }
+
+  /** Box of the item at `index` in container coordinates, or `null` when out of range. */
+  getItemRect(index: number): ItemPosition | null {
+    const pos = this.getPositions()[index];
+    return pos ? { ...pos } : null;
+  }
+
+  /** Index of the item at `(x, y)` in container coordinates, or -1 for none. */
+  getItemAtPoint(x: number, y: number): number {
+    return findItemAtPoint(this.getPositions(), x, y);
+  }
+
+  /** Indices of the items overlapping `rect` (container coordinates), in item order. */
+  getItemsInRect(rect: Rect): number[] {
+    return findItemsInRect(this.getPositions(), rect);
+  }
+
+  /** Computed positions; in CSS mode the browser's placement, read from the DOM. */
+  private getPositions(): ItemPosition[] {
+    if (!this.usesCss) return this.positions;
+    const resolved = resolveColumns(this.container.clientWidth, this.getColumnConfig());
+    return measurePositions(this.container, this.elements, resolved);
+  }
+
+  /**
+   * Change options in place and re-layout once. Switching between the CSS and
+   * JS engines (or layout types) removes the previous engine's styles first
+   * and emits `engineChange` after the re-layout. A new `renderItem`
+   * re-renders every item; new `items`, `filter` or `sort` go through
+   * `updateItems`. Options set to `undefined` fall back to their defaults.
+   */
+  setOptions(options: Partial<MasonryOptions<T>>): void {
+    this.captureBoxes();
+    const engine = this.getEngine();
+    const { items, renderItem, filter, sort } = this.options;
+    const allItems = this.getAllItems();
+
+    this.options = resolveOptions({ ...this.options, ...options, items, renderItem });
+    this.usesCss = this.shouldUseCss();
+    if (this.getEngine() !== engine) this.removeLayout(engine);
+    this.observeScroll();
+
+    if (options.renderItem && options.renderItem !== renderItem) {
+      this.heights.clear();
+      this.options.renderItem = options.renderItem;
+      this.allItems = options.items ?? allItems;
+      this.options.items = getVisibleItems(this.allItems, this.options.filter, this.options.sort);
+      this.render();
+    } else if (this.options.filter !== filter || this.options.sort !== sort) {
+      this.reconcileItems(options.items ?? allItems);
+    } else if (options.items && options.items !== allItems) {
+      this.updateItems(options.items);
+    } else {
+      this.layout();
+    }
+
+    const next = this.getEngine();
+    if (next !== engine) this.emit('engineChange', () => ({ engine: next, previous: engine }));
+  }
+
+  /** Listen for `type` events. Returns a function that stops listening. */
+  on<K extends keyof MasonryEventMap<T>>(
+    type: K,
+    listener: MasonryEventListener<T, K>
+  ): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /** Stop calling `listener` for `type` events. */
+  off<K extends keyof MasonryEventMap<T>>(type: K, listener: MasonryEventListener<T, K>): void {
+    this.events.off(type, listener);
+  }
+
+  /** Listen for the next `type` event only. Returns a function that stops listening. */
+  once<K extends keyof MasonryEventMap<T>>(
+    type: K,
+    listener: MasonryEventListener<T, K>
+  ): () => void {
+    return this.events.once(type, listener);
+  }
+
+  /** Clean up DOM mutations, stop observing resize and scrolling and drop listeners. */
+  destroy(): void {
+    this.events.clear();
+    this.animator?.finish();
+    this.resizeObserver?.disconnect();
+    this.itemObserver?.disconnect();
+    this.observeScroll(false);
+    this.cancelImageWaits();
+    this.removeLayout(this.getEngine());
+    this.container.replaceChildren(...this.getStampElements());
     this.elements = [];
+    this.hiddenElements.clear();
   }
 }
@@ -0,0 +1,236 @@
+import { ItemAnimationPreset, ItemAnimations, Rect } from './types';
+
+/** `animations` with every default filled in; `null` keyframes are disabled. */
+export interface ResolvedAnimations {
+  enter: Keyframe[] | null;
+  leave: Keyframe[] | null;
+  move: boolean;
+  duration: number;
+  easing: string;
+  stagger: number;
+}
+
+/** Boxes of elements in container coordinates, as painted when measured. */
+export type ElementBoxes = Map<HTMLElement, Rect>;
+
+/**
+ * FLIP animations of the items of one grid. Measure the rendered items before
+ * a change (`measure`), apply it, then `play` from the old boxes; items that
+ * were removed in between go to `leave`.
+ */
+export interface Animator {
+  /** Current boxes of `elements`, running animations included. */
+  measure(elements: HTMLElement[]): ElementBoxes;
+  /**
+   * Slide every element of `elements` that was measured in `first` from its
+   * old box to its new one, and play the enter animation of `entering`.
+   */
+  play(
+    first: ElementBoxes,
+    elements: HTMLElement[],
+    entering: HTMLElement[],
+    options: ResolvedAnimations
+  ): void;
+  /**
+   * Put removed `elements` back over their `first` box, play the leave
+   * animation and call `done` (default: detach) for each when it ends. Elements
+   * without a box are done right away.
+   */
+  leave(
+    elements: HTMLElement[],
+    first: ElementBoxes,
+    options: ResolvedAnimations,
+    done?: (el: HTMLElement) => void
+  ): void;
+  /** Stop the leave animation of `elements` and restore their style, without `done`. */
+  cancelLeave(elements: HTMLElement[]): void;
+  /** Finish every running animation; leaving elements are done. */
+  finish(): void;
+}
+
+const PRESETS: Record<ItemAnimationPreset, Keyframe[]> = {
+  fade: [{ opacity: 0 }, { opacity: 1 }],
+  scale: [{ scale: '0.85' }, { scale: '1' }],
+  'fade-scale': [
+    { opacity: 0, scale: '0.85' },
+    { opacity: 1, scale: '1' },
+  ],
+};
+
+/**
+ * Fill in the defaults of `animations`; `null` when it is off. Presets play
+ * forwards for entering items and in reverse for leaving ones.
+ */
+export function resolveAnimations(
+  animations: boolean | ItemAnimations | undefined,
+  duration: number
+): ResolvedAnimations | null {
+  if (!animations) return null;
+  const options = animations === true ? {} : animations;
+  const enter = options.enter ?? 'fade-scale';
+  const leave = options.leave ?? 'fade';
+
+  return {
+    enter: enter === false ? null : typeof enter === 'string' ? PRESETS[enter] : enter,
+    leave:
+      leave === false ? null : typeof leave === 'string' ? [...PRESETS[leave]].reverse() : leave,
+    move: options.move ?? true,
+    duration: Math.max(0, options.duration ?? duration),
+    easing: options.easing ?? 'ease',
+    stagger: Math.max(0, options.stagger ?? 0),
+  };
+}
+
+/** Whether animations can run: Web Animations exist and reduced motion is not requested. */
+function canAnimate(): boolean {
+  if (typeof Element === 'undefined' || typeof Element.prototype.animate !== 'function') {
+    return false;
+  }
+  return !window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+}
+
+/**
+ * Create the animator of `container`. Moves animate the `translate` property
+ * and the presets `opacity` / `scale`, so they compose with the `transform`
+ * the JS engine positions items with and work for CSS-placed items alike.
+ */
+export function createAnimator(container: HTMLElement): Animator {
+  const moves = new Map<HTMLElement, Animation>();
+  const enters = new Map<HTMLElement, Animation>();
+  /** Leaving elements: `stop` restores the element, `finish` also calls `done` */
+  const leaving = new Map<HTMLElement, { stop: () => void; finish: () => void }>();
+
+  const run = (
+    running: Map<HTMLElement, Animation>,
+    el: HTMLElement,
+    keyframes: Keyframe[],
+    options: ResolvedAnimations,
+    delay: number,
+    fill: FillMode = 'backwards'
+  ) => {
+    const { duration, easing } = options;
+    // `backwards` shows the first frame during the stagger delay
+    const animation = el.animate(keyframes, { duration, easing, delay, fill });
+    running.set(el, animation);
+    const done = () => {
+      if (running.get(el) === animation) running.delete(el);
+    };
+    animation.onfinish = done;
+    animation.oncancel = done;
+    return animation;
+  };
+
+  const measure = (elements: HTMLElement[]): ElementBoxes => {
+    const origin = container.getBoundingClientRect();
+    const boxes: ElementBoxes = new Map();
+    elements.forEach((el) => {
+      const rect = el.getBoundingClientRect();
+      boxes.set(el, {
+        x: rect.left - origin.left,
+        y: rect.top - origin.top,
+        width: rect.width,
+        height: rect.height,
+      });
+    });
+    return boxes;
+  };
+
+  return {
+    measure,
+
+    play(first, elements, entering, options) {
+      if (!canAnimate()) return;
+      const entered = new Set(entering);
+
+      // Entering items settle where they are placed instead of sliding there
+      const moving = options.move
+        ? elements.filter((el) => first.has(el) && !entered.has(el) && !enters.has(el))
+        : [];
+      moving.forEach((el) => moves.get(el)?.cancel());
+      const last = measure(moving);
+
+      let index = 0;
+      moving.forEach((el) => {
+        const from = first.get(el)!;
+        const to = last.get(el)!;
+        const dx = from.x - to.x;
+        const dy = from.y - to.y;
+        if (Math.abs(dx) < 0.5 && Math.abs(dy) < 0.5) return;
+
+        const keyframes = [{ translate: `${dx}px ${dy}px` }, { translate: '0px 0px' }];
+        run(moves, el, keyframes, options, options.stagger * index++);
+      });
+
+      if (!options.enter) return;
+      entering.forEach((el, i) => {
+        enters.get(el)?.cancel();
+        run(enters, el, options.enter!, options, options.stagger * i);
+      });
+    },
+
+    leave(elements, first, options, done = (el) => el.remove()) {
+      const animate = options.leave !== null && canAnimate();
+      let index = 0;
+      elements.forEach((el) => {
+        const box = first.get(el);
+        if (!animate || !box) {
+          done(el);
+          return;
+        }
+
+        // Pin the element over its old box, wherever its containing block is
+        moves.get(el)?.cancel();
+        enters.get(el)?.cancel();
+        leaving.get(el)?.stop();
+        const style = el.style.cssText;
+        container.appendChild(el);
+        Object.assign(el.style, {
+          position: 'absolute',
+          left: '0px',
+          top: '0px',
+          margin: '0px',
+          width: `${box.width}px`,
+          height: `${box.height}px`,
+          transform: 'none',
+          transition: 'none',
+          pointerEvents: 'none',
+        });
+        const [placed] = measure([el]).values();
+        el.style.left = `${box.x - placed.x}px`;
+        el.style.top = `${box.y - placed.y}px`;
+
+        // `both` keeps the last frame until the element is done
+        const { duration, easing } = options;
+        const delay = options.stagger * index++;
+        const animation = el.animate(options.leave!, { duration, easing, delay, fill: 'both' });
+        // Styles are restored synchronously, before the element is reused or hidden
+        const stop = () => {
+          if (leaving.get(el)?.stop !== stop) return;
+          leaving.delete(el);
+          animation.cancel();
+          el.style.cssText = style;
+        };
+        const finish = () => {
+          if (leaving.get(el)?.stop !== stop) return;
+          stop();
+          done(el);
+        };
+        leaving.set(el, { stop, finish });
+        animation.onfinish = finish;
+        animation.oncancel = stop;
+      });
+    },
+
+    cancelLeave(elements) {
+      elements.forEach((el) => leaving.get(el)?.stop());
+    },
+
+    finish() {
+      [moves, enters].forEach((running) => {
+        [...running.values()].forEach((animation) => animation.finish());
+        running.clear();
+      });
+      [...leaving.values()].forEach(({ finish }) => finish());
+    },
+  };
+}
@@ -0,0 +1,393 @@
+import {
+  ColumnConfig,
+  HeightEstimator,
+  ItemPosition,
+  ItemSizeHints,
+  JustifiedLayoutInput,
+  JustifiedLayoutResult,
+  MasonryLayoutInput,
+  MasonryLayoutResult,
+  ResolvedColumns,
+  StampRect,
+} from './types';
+import { getColumnCount } from './utils';
+
+/**
+ * Apply every breakpoint at or below `containerWidth` to the base config,
+ * smallest first. A breakpoint that sets `minColWidth` without `cols` clears an
+ * inherited `cols`, so the column count is derived from the width again.
+ */
+export function applyBreakpoints(
+  containerWidth: number,
+  config: ColumnConfig
+): Omit<ColumnConfig, 'breakpoints'> {
+  const { breakpoints, ...resolved } = config;
+  if (!breakpoints) return resolved;
+
+  Object.keys(breakpoints)
+    .map(Number)
+    .filter((minWidth) => minWidth <= containerWidth)
+    .sort((a, b) => a - b)
+    .forEach((minWidth) => {
+      const { cols, gutter, minColWidth } = breakpoints[minWidth];
+      if (gutter !== undefined) resolved.gutter = gutter;
+      if (minColWidth !== undefined) {
+        resolved.minColWidth = minColWidth;
+        resolved.columns = undefined;
+      }
+      if (cols !== undefined) resolved.columns = cols;
+    });
+
+  return resolved;
+}
+
+/**
+ * Resolve the column count, column width and gutter for a container.
+ * Precedence: breakpoints, then a fixed `columns` count (or columns derived
+ * from `minColWidth`, widened by `maxColWidth`), capped by `maxColumns`.
+ */
+export function resolveColumns(containerWidth: number, config: ColumnConfig): ResolvedColumns {
+  const { gutter, minColWidth, columns: fixed, maxColumns, maxColWidth } = applyBreakpoints(
+    containerWidth,
+    config
+  );
+
+  let columns = fixed
+    ? Math.max(1, Math.floor(fixed))
+    : getColumnCount(containerWidth, minColWidth, gutter);
+  if (!fixed && maxColWidth && maxColWidth > 0 && containerWidth > 0) {
+    columns = Math.max(columns, Math.ceil((containerWidth + gutter) / (maxColWidth + gutter)));
+  }
+  if (maxColumns && maxColumns > 0) {
+    columns = Math.min(columns, Math.floor(maxColumns));
+  }
+
+  const columnWidth = Math.max(0, (containerWidth - gutter * (columns - 1)) / columns);
+  return { columns, columnWidth, gutter };
+}
+
+/**
+ * Clamp a requested column span to the range `1..columns`.
+ */
+export function clampSpan(span: number | undefined, columns: number): number {
+  if (!span || !Number.isFinite(span)) return 1;
+  return Math.min(columns, Math.max(1, Math.floor(span)));
+}
+
+/**
+ * Width of an item spanning `span` columns, including the gutters it covers.
+ */
+export function getSpanWidth(span: number, columnWidth: number, gutter: number): number {
+  return span * columnWidth + (span - 1) * gutter;
+}
+
+/**
+ * Number of `snapUnit` rows (separated by `gutter`) needed to fit `height`,
+ * the same row span CSS Grid uses with `grid-auto-rows: snapUnit`.
+ */
+export function getSnapSpan(height: number, snapUnit: number, gutter: number): number {
+  return Math.max(1, Math.ceil((height + gutter) / (snapUnit + gutter)));
+}
+
+/**
+ * Height of the slot an item occupies when snapped to `snapUnit` rows.
+ */
+export function getSnappedHeight(height: number, snapUnit: number, gutter: number): number {
+  return getSnapSpan(height, snapUnit, gutter) * (snapUnit + gutter) - gutter;
+}
+
+/**
+ * Heights known from size hints, in item order. Entries are `undefined` for
+ * items that must be measured; an empty array means nothing is hinted.
+ */
+export function getKnownHeights<T>(
+  items: T[],
+  containerWidth: number,
+  config: ColumnConfig & { spans?: number[] },
+  hints: ItemSizeHints<T>
+): (number | undefined)[] {
+  const { getItemSize, getAspectRatio } = hints;
+  if (!getItemSize && !getAspectRatio) return [];
+
+  const { columns, columnWidth, gutter } = resolveColumns(containerWidth, config);
+  const spans = config.spans ?? [];
+
+  return items.map((item, i) => {
+    const width = getSpanWidth(clampSpan(spans[i], columns), columnWidth, gutter);
+    const size = getItemSize?.(item, width);
+    if (size !== undefined && size >= 0) return size;
+    const ratio = getAspectRatio?.(item);
+    return ratio && ratio > 0 ? width / ratio : undefined;
+  });
+}
+
+/**
+ * Estimated height of every item at its layout width (the column width, or
+ * wider for spanning items), used for items that have not been measured yet.
+ * `offset` is the index of the first item, passed on to `estimate`.
+ */
+export function getEstimatedHeights<T>(
+  items: T[],
+  containerWidth: number,
+  config: ColumnConfig & { spans?: number[] },
+  estimate: HeightEstimator<T>,
+  offset = 0
+): number[] {
+  const { columns, columnWidth, gutter } = resolveColumns(containerWidth, config);
+  const spans = config.spans ?? [];
+
+  return items.map((item, i) => {
+    const width = getSpanWidth(clampSpan(spans[i], columns), columnWidth, gutter);
+    return Math.max(0, estimate(item, offset + i, width) || 0);
+  });
+}
+
+/**
+ * Initial column heights: every column starts below the lowest stamp that
+ * overlaps it horizontally.
+ */
+function getStampedColumnHeights(
+  stamps: StampRect[],
+  columns: number,
+  columnWidth: number,
+  gutter: number
+): number[] {
+  const columnHeights = new Array<number>(columns).fill(0);
+  stamps.forEach(({ x, y, width, height }) => {
+    for (let c = 0; c < columns; c++) {
+      const left = c * (columnWidth + gutter);
+      if (left < x + width && left + columnWidth > x) {
+        columnHeights[c] = Math.max(columnHeights[c], y + height + gutter);
+      }
+    }
+  });
+  return columnHeights;
+}
+
+/**
+ * Pure masonry layout shared by every adapter (vanilla, React, Vue, Angular).
+ * Never touches the DOM, so the same input always produces the same output in
+ * every framework.
+ *
+ * With the default `'shortest'` placement each item goes to the shortest column
+ * ("shortest column first" greedy algorithm); ties go to the leftmost column.
+ * Items spanning several columns go to the lowest point across the adjacent
+ * columns they cover. With `snapUnit`, every slot is rounded up to whole rows
+ * so column bottoms line up on a baseline rhythm. `stamps` raise the starting
+ * height of the columns they overlap, so items flow around them.
+ */
+export function computeMasonryLayout(input: MasonryLayoutInput): MasonryLayoutResult {
+  const resolved = resolveColumns(input.containerWidth, input);
+  const { columns, columnWidth, gutter } = resolved;
+  const columnHeights = getStampedColumnHeights(input.stamps ?? [], columns, columnWidth, gutter);
+  const positions = placeItems(input, resolved, columnHeights, 0);
+
+  return { ...resolved, positions, columnHeights, height: getContentHeight(columnHeights, gutter) };
+}
+
+/**
+ * Continue `previous` with appended items: existing positions and column
+ * heights are kept, and only the new items (`input.heights` / `input.spans`
+ * describe the appended items alone) are placed.
+ *
+ * Returns `null` when the result could differ from a full layout — `'balanced'`
+ * placement, or columns that no longer match `previous` — so callers can fall
+ * back to `computeMasonryLayout`.
+ */
+export function appendMasonryLayout(
+  previous: MasonryLayoutResult,
+  input: MasonryLayoutInput
+): MasonryLayoutResult | null {
+  if (input.placement === 'balanced') return null;
+
+  const resolved = resolveColumns(input.containerWidth, input);
+  const { columns, columnWidth, gutter } = resolved;
+  if (
+    columns !== previous.columns ||
+    columnWidth !== previous.columnWidth ||
+    gutter !== previous.gutter
+  ) {
+    return null;
+  }
+
+  // Sequential placement resumes right after the last placed item
+  const last = previous.positions[previous.positions.length - 1];
+  const cursor = last
+    ? (last.column + Math.round((last.width + gutter) / (columnWidth + gutter))) % columns
+    : 0;
+
+  const columnHeights = [...previous.columnHeights];
+  const positions = placeItems(input, resolved, columnHeights, cursor);
+
+  return {
+    ...resolved,
+    positions: [...previous.positions, ...positions],
+    columnHeights,
+    height: getContentHeight(columnHeights, gutter),
+  };
+}
+
+/**
+ * Where the content of a masonry layout first runs out: the bottom of its
+ * shortest column (trailing gutter excluded). Infinite feeds load more once
+ * this nears the viewport, before the tallest column ends.
+ */
+export function getShortestColumnHeight(layout: MasonryLayoutResult): number {
+  return Math.max(0, Math.min(...layout.columnHeights) - layout.gutter);
+}
+
+/**
+ * Place `input.heights` onto `columnHeights` (updated in place) and return the
+ * new positions. `cursor` is the starting column for sequential placement.
+ */
+function placeItems(
+  input: MasonryLayoutInput,
+  { columns, columnWidth, gutter }: ResolvedColumns,
+  columnHeights: number[],
+  cursor: number
+): ItemPosition[] {
+  const { spans = [], placement = 'shortest', snapUnit } = input;
+  const heights = snapUnit
+    ? input.heights.map((height) => getSnappedHeight(height, snapUnit, gutter))
+    : input.heights;
+  const positions = new Array<ItemPosition>(heights.length);
+  const spanOf = (i: number) => clampSpan(spans[i], columns);
+
+  // Top of a slot is the lowest bottom among the columns it covers
+  const slotTop = (column: number, span: number) =>
+    Math.max(...columnHeights.slice(column, column + span));
+
+  const lowestSlot = (span: number): number => {
+    let column = 0;
+    for (let c = 1; c <= columns - span; c++) {
+      if (slotTop(c, span) < slotTop(column, span)) column = c;
+    }
+    return column;
+  };
+
+  const place = (i: number, column: number, span: number) => {
+    const y = slotTop(column, span);
+    const height = heights[i];
+    for (let c = column; c < column + span; c++) {
+      columnHeights[c] = y + height + gutter;
+    }
+    positions[i] = {
+      x: column * (columnWidth + gutter),
+      y,
+      width: getSpanWidth(span, columnWidth, gutter),
+      height,
+      column,
+    };
+  };
+
+  if (placement === 'sequential') {
+    heights.forEach((_, i) => {
+      const span = spanOf(i);
+      if (cursor + span > columns) cursor = 0;
+      place(i, cursor, span);
+      cursor = (cursor + span) % columns;
+    });
+  } else if (placement === 'balanced') {
+    let row: number[] = [];
+    // Distance between the highest and lowest column bottom once the row is placed
+    const spread = (columnOf: number[]) => {
+      const bottoms = [...columnHeights];
+      row.forEach((i, k) => (bottoms[columnOf[k]] += heights[i] + gutter));
+      return Math.max(...bottoms) - Math.min(...bottoms);
+    };
+    const flushRow = () => {
+      if (row.length === 0) return;
+      const byColumn = columnHeights
+        .map((_, c) => c)
+        .sort((a, b) => columnHeights[a] - columnHeights[b] || a - b);
+      // The row keeps reading order across the shortest columns...
+      const inOrder = byColumn.slice(0, row.length).sort((a, b) => a - b);
+      // ...unless tallest-first onto the shortest columns evens out the bottoms
+      const byHeight = [...row].sort((a, b) => heights[b] - heights[a] || a - b);
+      const reordered = row.map((i) => byColumn[byHeight.indexOf(i)]);
+      const columnOf = spread(reordered) < spread(inOrder) ? reordered : inOrder;
+      row.forEach((i, k) => place(i, columnOf[k], 1));
+      row = [];
+    };
+    heights.forEach((_, i) => {
+      const span = spanOf(i);
+      if (span > 1) {
+        flushRow();
+        place(i, lowestSlot(span), span);
+        return;
+      }
+      row.push(i);
+      if (row.length === columns) flushRow();
+    });
+    flushRow();
+  } else {
+    heights.forEach((_, i) => {
+      const span = spanOf(i);
+      place(i, lowestSlot(span), span);
+    });
+  }
+
+  return positions;
+}
+
+/**
+ * Subtract the trailing gutter to get the true content height; clamp to 0 for
+ * empty grids. Stamps count too, so the container always covers them.
+ */
+function getContentHeight(columnHeights: number[], gutter: number): number {
+  return Math.max(0, Math.max(...columnHeights) - gutter);
+}
+
+/**
+ * Pure justified row layout. Items are added to a row until scaling the row to
+ * the full container width would make it no taller than `targetRowHeight`;
+ * the row is then closed at that height, so every item keeps its aspect ratio.
+ */
+export function computeJustifiedLayout(input: JustifiedLayoutInput): JustifiedLayoutResult {
+  const {
+    containerWidth,
+    gutter,
+    aspectRatios,
+    targetRowHeight,
+    maxRowHeight = Infinity,
+    lastRow = 'left',
+  } = input;
+  const ratios = aspectRatios.map((r) => (r > 0 && Number.isFinite(r) ? r : 1));
+  const positions: ItemPosition[] = [];
+  const rowHeights: number[] = [];
+
+  let y = 0;
+  let rowStart = 0;
+  let ratioSum = 0;
+
+  // Height at which the items rowStart..end fill the container width exactly
+  const fillHeight = (end: number) =>
+    Math.max(0, (containerWidth - gutter * (end - rowStart - 1)) / ratioSum);
+
+  const closeRow = (end: number, rowHeight: number) => {
+    let x = 0;
+    for (let i = rowStart; i < end; i++) {
+      const width = ratios[i] * rowHeight;
+      positions.push({ x, y, width, height: rowHeight, column: i - rowStart });
+      x += width + gutter;
+    }
+    rowHeights.push(rowHeight);
+    y += rowHeight + gutter;
+    rowStart = end;
+    ratioSum = 0;
+  };
+
+  ratios.forEach((ratio, i) => {
+    ratioSum += ratio;
+    const rowHeight = fillHeight(i + 1);
+    if (rowHeight <= targetRowHeight) closeRow(i + 1, Math.min(rowHeight, maxRowHeight));
+  });
+
+  if (rowStart < ratios.length) {
+    const rowHeight = lastRow === 'justify' ? fillHeight(ratios.length) : targetRowHeight;
+    closeRow(ratios.length, Math.min(rowHeight, maxRowHeight));
+  }
+
+  const height = rowHeights.length > 0 ? y - gutter : 0;
+  return { positions, rowHeights, height };
+}
@@ -1,15 +1,24 @@
+import { ColumnConfig } from './types';
+import { applyBreakpoints, clampSpan, getSnapSpan } from './computeLayout';
+
 /**
  * Apply native CSS masonry layout using CSS Grid with grid-template-rows: masonry.
  * This is an experimental CSS feature available in Firefox with a flag
  * and progressively rolling out in other engines.
+ * Pass `columns` to use a column count resolved in JS (breakpoints, fixed
+ * columns, ...) instead of `auto-fill`.
  */
 export function applyCssMasonry(
   container: HTMLElement,
   gutter: number,
-  minColWidth: number
+  minColWidth: number,
+  columns?: number
 ): void {
   container.style.display = 'grid';
-  container.style.gridTemplateColumns = `repeat(auto-fill, minmax(${minColWidth}px, 1fr))`;
+  container.style.gridTemplateColumns =
+    columns === undefined
+      ? `repeat(auto-fill, minmax(${minColWidth}px, 1fr))`
+      : `repeat(${columns}, minmax(0, 1fr))`;
   container.style.gridTemplateRows = 'masonry';
   container.style.gap = `${gutter}px`;
   container.style.alignContent = 'start';
@@ -25,3 +34,136 @@ export function removeCssMasonry(container: HTMLElement): void {
   container.style.gap = '';
   container.style.alignContent = '';
 }
+
+/**
+ * Make items span several grid columns (`grid-column: span N`).
+ * When `columns` is given, spans are clamped to it so wide items never create
+ * implicit columns that overflow the container.
+ */
+export function applyCssSpans(
+  items: HTMLElement[],
+  spans: number[],
+  columns?: number
+): void {
+  items.forEach((item, i) => {
+    const span = columns === undefined ? spans[i] ?? 1 : clampSpan(spans[i], columns);
+    item.style.gridColumn = span > 1 ? `span ${span}` : '';
+  });
+}
+
+/**
+ * Remove column spans set by `applyCssSpans`.
+ */
+export function removeCssSpans(items: HTMLElement[]): void {
+  items.forEach((item) => {
+    item.style.gridColumn = '';
+  });
+}
+
+/**
+ * Snap items to a baseline row grid: `grid-auto-rows: snapUnit` plus a
+ * per-item `grid-row: span N` computed from each item's measured height.
+ * Replaces `grid-template-rows: masonry` (rows in the masonry axis cannot
+ * span), so it works the same in browsers without native masonry; `dense`
+ * auto-flow back-fills the gaps. Call again after resizes to re-measure.
+ */
+export function applyCssSnapGrid(
+  container: HTMLElement,
+  items: HTMLElement[],
+  snapUnit: number,
+  gutter: number
+): void {
+  container.style.gridTemplateRows = '';
+  container.style.gridAutoRows = `${snapUnit}px`;
+  container.style.gridAutoFlow = 'row dense';
+
+  // Items must not stretch to their slot, or spans could never shrink
+  items.forEach((item) => {
+    item.style.alignSelf = 'start';
+  });
+  const heights = items.map((item) => item.offsetHeight);
+  items.forEach((item, i) => {
+    item.style.gridRow = `span ${getSnapSpan(heights[i], snapUnit, gutter)}`;
+  });
+}
+
+/**
+ * Remove baseline row grid styles set by `applyCssSnapGrid`.
+ */
+export function removeCssSnapGrid(container: HTMLElement, items: HTMLElement[]): void {
+  container.style.gridAutoRows = '';
+  container.style.gridAutoFlow = '';
+  items.forEach((item) => {
+    item.style.alignSelf = '';
+    item.style.gridRow = '';
+  });
+}
+
+/**
+ * Whether a config uses any column setting beyond `gutter` / `minColWidth`.
+ */
+export function hasColumnSettings(config: ColumnConfig): boolean {
+  const { columns, maxColumns, maxColWidth, breakpoints } = config;
+  return (
+    columns !== undefined ||
+    maxColumns !== undefined ||
+    maxColWidth !== undefined ||
+    (breakpoints !== undefined && Object.keys(breakpoints).length > 0)
+  );
+}
+
+/**
+ * Deterministic class name for a column config, identical on server and client
+ * so the generated grid CSS can be shared between SSR output and hydration.
+ * Configs that only differ in key order get the same name.
+ */
+export function getGridClassName(config: ColumnConfig): string {
+  const { gutter, minColWidth, columns, maxColumns, maxColWidth, breakpoints = {} } = config;
+  const normalized = Object.keys(breakpoints)
+    .sort((a, b) => Number(a) - Number(b))
+    .map((minWidth) => {
+      const breakpoint = breakpoints[Number(minWidth)];
+      return [Number(minWidth), breakpoint.cols, breakpoint.gutter, breakpoint.minColWidth];
+    });
+  const source = JSON.stringify([gutter, minColWidth, columns, maxColumns, maxColWidth, normalized]);
+  let hash = 5381;
+  for (let i = 0; i < source.length; i++) {
+    hash = ((hash << 5) + hash + source.charCodeAt(i)) | 0;
+  }
+  return `msgl-grid-${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Generate the CSS custom properties consumed by the SSR and CSS masonry grids
+ * in style.css (`--msgl-grid-columns`, `--msgl-gutter`) from a column config.
+ * Breakpoints become `min-width` media queries, so before hydration they follow
+ * the viewport width; the JS engine resolves them against the container width.
+ * `maxColWidth` cannot be expressed with `auto-fill` and is JS-only.
+ */
+export function createGridCss(selector: string, config: ColumnConfig): string {
+  const rule = (width: number) => {
+    const { gutter, minColWidth, columns, maxColumns } = applyBreakpoints(width, config);
+    let template: string;
+    if (columns) {
+      const count = maxColumns ? Math.min(columns, maxColumns) : columns;
+      template = `repeat(${count}, minmax(0, 1fr))`;
+    } else if (maxColumns) {
+      // Column min width grows so that no more than maxColumns fit
+      const min = `max(${minColWidth}px, (100% - ${maxColumns - 1} * ${gutter}px) / ${maxColumns})`;
+      template = `repeat(auto-fill, minmax(${min}, 1fr))`;
+    } else {
+      template = `repeat(auto-fill, minmax(${minColWidth}px, 1fr))`;
+    }
+    return `${selector}{--msgl-grid-columns:${template};--msgl-gutter:${gutter}px}`;
+  };
+
+  const minWidths = Object.keys(config.breakpoints ?? {})
+    .map(Number)
+    .filter((minWidth) => minWidth > 0)
+    .sort((a, b) => a - b);
+
+  return [
+    rule(0),
+    ...minWidths.map((minWidth) => `@media (min-width:${minWidth}px){${rule(minWidth)}}`),
+  ].join('\n');
+}
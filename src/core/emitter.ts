@@ -0,0 +1,76 @@
+/** Listener for events of type `E`. */
+export type Listener<E> = (event: E) => void;
+
+/** Typed event emitter; `Events` maps every event type to its payload. */
+export interface Emitter<Events> {
+  /** Call `listener` for every `type` event. Returns a function that stops listening. */
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void;
+  /**
+   * Remove one registration of `listener` for `type`: the one added with `on`,
+   * or else one added with `once`. The functions returned by `on` and `once`
+   * remove exactly their own registration.
+   */
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void;
+  /** Call `listener` for the next `type` event only. */
+  once<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void;
+  /** Call the listeners of `type`, in the order they were added. */
+  emit<K extends keyof Events>(type: K, event: Events[K]): void;
+  /** Whether `type` has any listeners, to skip building unused payloads. */
+  has(type: keyof Events): boolean;
+  /** Remove every listener. */
+  clear(): void;
+}
+
+/** One registration; duplicate registrations of a listener are separate entries. */
+interface Entry {
+  listener: Listener<never>;
+  once: boolean;
+}
+
+/** Create an empty typed event emitter. */
+export function createEmitter<Events>(): Emitter<Events> {
+  const entries = new Map<keyof Events, Entry[]>();
+
+  const add = (type: keyof Events, listener: Listener<never>, once: boolean) => {
+    const entry: Entry = { listener, once };
+    entries.set(type, [...(entries.get(type) ?? []), entry]);
+    return () => remove(type, entry);
+  };
+
+  const remove = (type: keyof Events, entry: Entry | undefined) => {
+    const remaining = [...(entries.get(type) ?? [])];
+    const index = entry ? remaining.indexOf(entry) : -1;
+    if (index < 0) return;
+    remaining.splice(index, 1);
+    if (remaining.length > 0) entries.set(type, remaining);
+    else entries.delete(type);
+  };
+
+  return {
+    on(type, listener) {
+      return add(type, listener, false);
+    },
+    off(type, listener) {
+      // A registration by `on` goes first; `once` ones stay until it is gone
+      const current = entries.get(type) ?? [];
+      const matching = current.filter((entry) => entry.listener === listener);
+      remove(type, matching.find((entry) => !entry.once) ?? matching[0]);
+    },
+    once(type, listener) {
+      return add(type, listener, true);
+    },
+    emit(type, event) {
+      // Listeners added or removed while emitting take effect from the next event
+      [...(entries.get(type) ?? [])].forEach((entry) => {
+        if (entry.once) remove(type, entry);
+        (entry.listener as Listener<Events[typeof type]>)(event);
+      });
+    },
+    has(type) {
+      return entries.has(type);
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
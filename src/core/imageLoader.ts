@@ -0,0 +1,71 @@
+/** Class of an item whose images are still loading (`waitForImages`). */
+export const LOADING_CLASS = 'msgl-item--loading';
+
+/** `el` itself when it is an image, otherwise the images inside it. */
+function getImages(el: HTMLElement): HTMLImageElement[] {
+  return el instanceof HTMLImageElement ? [el] : Array.from(el.querySelectorAll('img'));
+}
+
+/** True when a finished `img` has a source that did not produce an image. */
+function isBroken(img: HTMLImageElement): boolean {
+  return Boolean(img.getAttribute('src')) && img.naturalWidth === 0;
+}
+
+/** Images inside `el` (or `el` itself) that have neither loaded nor failed yet. */
+export function getPendingImages(el: HTMLElement): HTMLImageElement[] {
+  return getImages(el).filter((img) => !img.complete);
+}
+
+/**
+ * Wait for the images inside `elements`. `onItemSettled` runs for every element
+ * that had pending images, once all of them have loaded or failed; elements
+ * without pending images are settled already. `onSettled` runs once the whole
+ * batch is done (synchronously when nothing is pending) with the images that
+ * failed. Returns a function that stops waiting without calling either.
+ */
+export function waitForImageLoad(
+  elements: HTMLElement[],
+  onItemSettled: (el: HTMLElement) => void,
+  onSettled: (failed: HTMLImageElement[]) => void
+): () => void {
+  const failed: HTMLImageElement[] = [];
+  const cleanups: (() => void)[] = [];
+  let remaining = 0;
+
+  const settleItem = (el: HTMLElement) => {
+    onItemSettled(el);
+    remaining--;
+    if (remaining === 0) onSettled(failed);
+  };
+
+  elements.forEach((el) => {
+    const images = getImages(el);
+    images.filter((img) => img.complete && isBroken(img)).forEach((img) => failed.push(img));
+
+    const pending = images.filter((img) => !img.complete);
+    if (pending.length === 0) return;
+
+    remaining++;
+    let left = pending.length;
+    pending.forEach((img) => {
+      const onLoad = () => done(false);
+      const onError = () => done(true);
+      const done = (error: boolean) => {
+        img.removeEventListener('load', onLoad);
+        img.removeEventListener('error', onError);
+        if (error) failed.push(img);
+        left--;
+        if (left === 0) settleItem(el);
+      };
+      img.addEventListener('load', onLoad);
+      img.addEventListener('error', onError);
+      cleanups.push(() => {
+        img.removeEventListener('load', onLoad);
+        img.removeEventListener('error', onError);
+      });
+    });
+  });
+
+  if (remaining === 0) onSettled(failed);
+  return () => cleanups.forEach((cleanup) => cleanup());
+}
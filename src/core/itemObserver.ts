@@ -0,0 +1,78 @@
+/** Shared size observer for the item wrappers of one grid. */
+export interface ItemObserver {
+  /**
+   * Observe exactly `elements` (others are unobserved) and record their current
+   * height, so only later changes are reported. Optional `heights` are the
+   * heights the layout used; elements that already differ are reported too.
+   * Call after every layout pass.
+   */
+  track(elements: HTMLElement[], heights?: (number | undefined)[]): void;
+  /** Stop observing and drop any pending report. */
+  disconnect(): void;
+}
+
+/**
+ * Watch item wrappers with a single ResizeObserver. Height changes (images that
+ * finish loading, expanding content, late fonts, ...) are collected and handed
+ * to `onResize` once per animation frame, as a map from element to its new
+ * `offsetHeight`. Returns `null` where ResizeObserver is unavailable (SSR).
+ */
+export function createItemObserver(
+  onResize: (heights: Map<HTMLElement, number>) => void
+): ItemObserver | null {
+  if (typeof ResizeObserver === 'undefined') return null;
+
+  const heights = new Map<HTMLElement, number>();
+  let pending = new Map<HTMLElement, number>();
+  let frame = 0;
+
+  const flush = () => {
+    frame = 0;
+    const changed = pending;
+    pending = new Map();
+    if (changed.size > 0) onResize(changed);
+  };
+
+  const report = (el: HTMLElement, height: number) => {
+    pending.set(el, height);
+    if (!frame) frame = requestAnimationFrame(flush);
+  };
+
+  const observer = new ResizeObserver((entries) => {
+    entries.forEach(({ target }) => {
+      const el = target as HTMLElement;
+      const height = el.offsetHeight;
+      if (!heights.has(el) || heights.get(el) === height) return;
+      heights.set(el, height);
+      report(el, height);
+    });
+  });
+
+  return {
+    track(elements, laidOut = []) {
+      const next = new Set(elements);
+      heights.forEach((_, el) => {
+        if (next.has(el)) return;
+        observer.unobserve(el);
+        heights.delete(el);
+        pending.delete(el);
+      });
+      elements.forEach((el, i) => {
+        if (!heights.has(el)) observer.observe(el);
+        const height = el.offsetHeight;
+        heights.set(el, height);
+        // Elements that already differ from the height they were laid out with
+        // are reported right away; the others are up to date
+        if (laidOut[i] !== undefined && laidOut[i] !== height) report(el, height);
+        else pending.delete(el);
+      });
+    },
+    disconnect() {
+      observer.disconnect();
+      cancelAnimationFrame(frame);
+      frame = 0;
+      heights.clear();
+      pending.clear();
+    },
+  };
+}
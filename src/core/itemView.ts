@@ -0,0 +1,15 @@
+import { ItemComparator, ItemFilter } from './types';
+
+/**
+ * Items a grid shows: those `filter` accepts, ordered by `sort`. The sort is
+ * stable, and `items` itself is returned when neither is set.
+ */
+export function getVisibleItems<T>(
+  items: T[],
+  filter?: ItemFilter<T> | null,
+  sort?: ItemComparator<T> | null
+): T[] {
+  if (!filter && !sort) return items;
+  const visible = filter ? items.filter((item) => filter(item)) : [...items];
+  return sort ? visible.sort(sort) : visible;
+}
@@ -0,0 +1,47 @@
+import { JustifiedLayoutInput, JustifiedLayoutResult } from './types';
+import { computeJustifiedLayout } from './computeLayout';
+import { placeItem, removeMasonryLayout } from './layoutEngine';
+
+/** Justified layout settings passed through to the pure core. */
+export type JustifiedLayoutSettings = Omit<JustifiedLayoutInput, 'containerWidth' | 'gutter'>;
+
+/**
+ * Apply a justified row layout using absolute positioning and CSS transforms.
+ * Item sizes come from their aspect ratios, so nothing is measured; items that
+ * are not rendered (`undefined`, virtualization) are skipped. Returns the
+ * computed layout, or `null` when the container has no width.
+ */
+export function applyJustifiedLayout(
+  container: HTMLElement,
+  items: (HTMLElement | undefined)[],
+  gutter: number,
+  animate: boolean,
+  duration: number,
+  settings: JustifiedLayoutSettings
+): JustifiedLayoutResult | null {
+  const containerWidth = container.clientWidth;
+  if (containerWidth <= 0) return null;
+
+  const layout = computeJustifiedLayout({ ...settings, containerWidth, gutter });
+
+  items.forEach((item, i) => {
+    if (item) placeItem(item, layout.positions[i], animate, duration, true);
+  });
+
+  container.style.position = 'relative';
+  container.style.height = `${layout.height}px`;
+  return layout;
+}
+
+/**
+ * Remove all justified layout inline styles from the container and its items.
+ */
+export function removeJustifiedLayout(
+  container: HTMLElement,
+  items: HTMLElement[]
+): void {
+  removeMasonryLayout(container, items);
+  items.forEach((item) => {
+    item.style.height = '';
+  });
+}
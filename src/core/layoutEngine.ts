@@ -1,28 +1,98 @@
-import { getColumnCount } from './utils';
+import {
+  AppliedMasonryLayout,
+  ItemPosition,
+  MasonryLayoutResult,
+  MasonryLayoutSettings,
+  ResolvedColumns,
+} from './types';
+import {
+  appendMasonryLayout,
+  clampSpan,
+  computeMasonryLayout,
+  getSpanWidth,
+  resolveColumns,
+} from './computeLayout';
 
 /**
  * Apply JS-powered masonry layout using absolute positioning and CSS transforms.
- * Uses the "shortest column first" greedy algorithm for optimal item placement.
+ * Positions come from the pure `computeMasonryLayout` core.
  * Minimal DOM thrashing: sets widths first, reads heights once, then sets transforms.
+ * Items that are not rendered (`undefined`, virtualization) are placed from
+ * `settings.knownHeights`. Returns the computed layout with the height of each
+ * item, or `null` when the container has no width.
  */
 export function applyMasonryLayout(
   container: HTMLElement,
-  items: HTMLElement[],
+  items: (HTMLElement | undefined)[],
   minColWidth: number,
   gutter: number,
   animate: boolean,
-  duration: number
-): void {
+  duration: number,
+  settings: MasonryLayoutSettings = {}
+): AppliedMasonryLayout | null {
   const containerWidth = container.clientWidth;
-  if (containerWidth <= 0) return;
+  if (containerWidth <= 0) return null;
 
-  const cols = getColumnCount(containerWidth, minColWidth, gutter);
-  const colWidth = (containerWidth - gutter * (cols - 1)) / cols;
+  const resolved = resolveColumns(containerWidth, { ...settings, gutter, minColWidth });
+  const heights = measureItems(items, resolved, animate, duration, settings);
+  const layout = computeMasonryLayout({ ...settings, containerWidth, gutter, minColWidth, heights });
 
-  // Set widths first so content can reflow to correct dimensions
-  items.forEach((item) => {
+  positionItems(container, items, layout, 0);
+  return { ...layout, itemHeights: heights };
+}
+
+/**
+ * Place items appended after `previous` without touching the existing ones:
+ * only the new items are sized, measured and positioned. `items` and the
+ * per-item `settings` (spans, known heights) describe the appended items only,
+ * and so do the returned `itemHeights`. Returns `null` when a full
+ * `applyMasonryLayout` is needed instead.
+ */
+export function appendMasonryItems(
+  container: HTMLElement,
+  previous: MasonryLayoutResult,
+  items: (HTMLElement | undefined)[],
+  minColWidth: number,
+  gutter: number,
+  animate: boolean,
+  duration: number,
+  settings: MasonryLayoutSettings = {}
+): AppliedMasonryLayout | null {
+  const containerWidth = container.clientWidth;
+  if (containerWidth <= 0) return null;
+
+  const resolved = resolveColumns(containerWidth, { ...settings, gutter, minColWidth });
+  const heights = measureItems(items, resolved, animate, duration, settings);
+  const layout = appendMasonryLayout(previous, {
+    ...settings,
+    containerWidth,
+    gutter,
+    minColWidth,
+    heights,
+  });
+  if (!layout) return null;
+
+  positionItems(container, items, layout, previous.positions.length);
+  return { ...layout, itemHeights: heights };
+}
+
+/**
+ * Set widths first so content can reflow to correct dimensions, then read
+ * offsetHeight once (a single reflow). Items with a known height are never measured.
+ */
+function measureItems(
+  items: (HTMLElement | undefined)[],
+  { columns, columnWidth, gutter }: ResolvedColumns,
+  animate: boolean,
+  duration: number,
+  settings: MasonryLayoutSettings
+): number[] {
+  const spans = settings.spans ?? [];
+  items.forEach((item, i) => {
+    if (!item) return;
+    const span = clampSpan(spans[i], columns);
     item.style.position = 'absolute';
-    item.style.width = `${colWidth}px`;
+    item.style.width = `${getSpanWidth(span, columnWidth, gutter)}px`;
     if (animate) {
       item.style.transition = `transform ${duration}ms ease`;
     } else {
@@ -30,24 +100,45 @@ export function applyMasonryLayout(
     }
   });
 
-  // Reading offsetHeight forces a single reflow with correct widths applied
-  const colHeights = new Array<number>(cols).fill(0);
-
-  items.forEach((item) => {
-    const minHeight = Math.min(...colHeights);
-    const colIndex = colHeights.indexOf(minHeight);
-
-    const x = colIndex * (colWidth + gutter);
-    const y = colHeights[colIndex];
+  const knownHeights = settings.knownHeights ?? [];
+  return items.map((item, i) => knownHeights[i] ?? item?.offsetHeight ?? 0);
+}
 
+/** Move the rendered `items` to the layout positions starting at index `offset`. */
+function positionItems(
+  container: HTMLElement,
+  items: (HTMLElement | undefined)[],
+  layout: MasonryLayoutResult,
+  offset: number
+): void {
+  items.forEach((item, i) => {
+    if (!item) return;
+    const { x, y } = layout.positions[offset + i];
     item.style.transform = `translate(${x}px, ${y}px)`;
-    colHeights[colIndex] += item.offsetHeight + gutter;
   });
 
   container.style.position = 'relative';
-  // Subtract trailing gutter to get true content height; clamp to 0 for empty grids
-  const maxColHeight = items.length > 0 ? Math.max(...colHeights) - gutter : 0;
-  container.style.height = `${Math.max(0, maxColHeight)}px`;
+  container.style.height = `${layout.height}px`;
+}
+
+/**
+ * Size and place a single item at an already computed position, e.g. an item
+ * rendered again while scrolling a virtualized grid. Placing it before it is
+ * inserted keeps it from animating in from the container's corner.
+ * `fixedHeight` also sets its height (justified rows).
+ */
+export function placeItem(
+  item: HTMLElement,
+  { x, y, width, height }: ItemPosition,
+  animate: boolean,
+  duration: number,
+  fixedHeight = false
+): void {
+  item.style.position = 'absolute';
+  item.style.width = `${width}px`;
+  if (fixedHeight) item.style.height = `${height}px`;
+  item.style.transform = `translate(${x}px, ${y}px)`;
+  item.style.transition = animate ? `transform ${duration}ms ease` : '';
 }
 
 /**
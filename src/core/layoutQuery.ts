@@ -0,0 +1,80 @@
+import { ItemPosition, LayoutSnapshot, Rect, ResolvedColumns } from './types';
+import { getRectWithin } from './utils';
+
+/**
+ * Snapshot of a layout. Positions are copied, so later layouts (and callers)
+ * cannot change each other's data. Pass `resolved: null` for justified rows.
+ */
+export function createLayoutSnapshot(
+  resolved: ResolvedColumns | null,
+  gutter: number,
+  positions: ItemPosition[],
+  height: number
+): LayoutSnapshot {
+  return {
+    columns: resolved?.columns ?? 0,
+    columnWidth: resolved?.columnWidth ?? 0,
+    gutter: resolved?.gutter ?? gutter,
+    positions: positions.map((pos) => ({ ...pos })),
+    height,
+  };
+}
+
+/**
+ * Positions of items the browser placed (CSS masonry), read from the DOM in
+ * container coordinates. The column follows from the horizontal offset; items
+ * without an element get an empty box.
+ */
+export function measurePositions(
+  container: HTMLElement,
+  elements: (HTMLElement | null | undefined)[],
+  resolved: ResolvedColumns
+): ItemPosition[] {
+  const origin = container.getBoundingClientRect();
+  const { columns, columnWidth, gutter } = resolved;
+
+  return elements.map((el) => {
+    if (!el) return { x: 0, y: 0, width: 0, height: 0, column: 0 };
+    const rect = getRectWithin(el, container, origin);
+    const column = Math.round(rect.x / (columnWidth + gutter));
+    return { ...rect, column: Math.min(Math.max(column, 0), columns - 1) };
+  });
+}
+
+/** Bottom of the lowest item, for layouts that do not report their height. */
+export function getPositionsHeight(positions: ItemPosition[]): number {
+  return positions.reduce((height, pos) => Math.max(height, pos.y + pos.height), 0);
+}
+
+/**
+ * Index of the item whose box contains the point `(x, y)` in container
+ * coordinates, or -1 when the point is in a gap or outside the grid.
+ */
+export function findItemAtPoint(
+  positions: readonly ItemPosition[],
+  x: number,
+  y: number
+): number {
+  return positions.findIndex(
+    (pos) => x >= pos.x && x < pos.x + pos.width && y >= pos.y && y < pos.y + pos.height
+  );
+}
+
+/**
+ * Indices of the items whose boxes overlap `rect` (container coordinates), in
+ * item order. Boxes that only touch its edge do not count.
+ */
+export function findItemsInRect(positions: readonly ItemPosition[], rect: Rect): number[] {
+  const indices: number[] = [];
+  positions.forEach((pos, i) => {
+    if (
+      pos.x < rect.x + rect.width &&
+      pos.x + pos.width > rect.x &&
+      pos.y < rect.y + rect.height &&
+      pos.y + pos.height > rect.y
+    ) {
+      indices.push(i);
+    }
+  });
+  return indices;
+}
@@ -0,0 +1,58 @@
+/**
+ * Reorder the item elements of `container` from `prev` to `next` with as few
+ * DOM moves as possible. Elements that are already in the right relative order
+ * (the longest increasing run of their old indices) stay put; the others are
+ * moved or inserted. Elements of `prev` missing from `next` are removed, and
+ * other children of the container (e.g. stamps) are left alone.
+ */
+export function reconcileElements(
+  container: HTMLElement,
+  prev: HTMLElement[],
+  next: HTMLElement[]
+): void {
+  const kept = new Set(next);
+  const remaining = prev.filter((el) => kept.has(el));
+  prev.forEach((el) => {
+    if (!kept.has(el)) el.remove();
+  });
+
+  const prevIndex = new Map(remaining.map((el, i) => [el, i]));
+  const stable = getLongestIncreasingRun(next.map((el) => prevIndex.get(el) ?? -1));
+
+  // Walk backwards so every moved element is inserted before its successor
+  let anchor = remaining.length > 0 ? remaining[remaining.length - 1].nextSibling : null;
+  for (let i = next.length - 1; i >= 0; i--) {
+    const el = next[i];
+    if (!stable.has(i)) container.insertBefore(el, anchor);
+    anchor = el;
+  }
+}
+
+/**
+ * Positions of the longest strictly increasing subsequence of `values`
+ * (negative values are skipped), in O(n log n).
+ */
+function getLongestIncreasingRun(values: number[]): Set<number> {
+  // tails[k]: position of the smallest last value of an increasing run of length k + 1
+  const tails: number[] = [];
+  const parents = new Array<number>(values.length).fill(-1);
+
+  values.forEach((value, i) => {
+    if (value < 0) return;
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) parents[i] = tails[lo - 1];
+    tails[lo] = i;
+  });
+
+  const run = new Set<number>();
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i >= 0; i = parents[i]) {
+    run.add(i);
+  }
+  return run;
+}
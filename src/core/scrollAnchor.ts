@@ -0,0 +1,52 @@
+import { ItemPosition } from './types';
+import { getScrollOffsetTop, getScrollState } from './utils';
+
+/** Item the scroll position is anchored to, and the `y` it was laid out at. */
+export interface ScrollAnchor {
+  id: unknown;
+  y: number;
+}
+
+/**
+ * The first item at the top of the viewport of `scroller` (or the window):
+ * the highest laid-out item that is not entirely above it, leftmost on ties.
+ * `ids[i]` identifies the item at `positions[i]` across layouts. Returns
+ * `null` while the top of the grid is in view, where nothing needs anchoring.
+ */
+export function getScrollAnchor(
+  container: HTMLElement,
+  scroller: HTMLElement | null,
+  positions: ItemPosition[],
+  ids: unknown[]
+): ScrollAnchor | null {
+  if (positions.length === 0) return null;
+
+  const viewTop = getScrollState(scroller).scrollTop - getScrollOffsetTop(container, scroller);
+  if (viewTop <= 0) return null;
+
+  let anchor = -1;
+  positions.forEach((pos, i) => {
+    if (pos.y + pos.height <= viewTop) return;
+    const best = positions[anchor];
+    if (!best || pos.y < best.y || (pos.y === best.y && pos.x < best.x)) anchor = i;
+  });
+  return anchor < 0 ? null : { id: ids[anchor], y: positions[anchor].y };
+}
+
+/**
+ * Scroll `scroller` (or the window) by however far the anchored item moved in
+ * the new `positions`. Nothing happens when the item is gone.
+ */
+export function restoreScrollAnchor(
+  anchor: ScrollAnchor,
+  scroller: HTMLElement | null,
+  positions: ItemPosition[],
+  ids: unknown[]
+): void {
+  const pos = positions[ids.indexOf(anchor.id)];
+  const delta = pos ? pos.y - anchor.y : 0;
+  if (delta === 0) return;
+
+  if (scroller) scroller.scrollTop += delta;
+  else window.scrollTo(window.scrollX, window.scrollY + delta);
+}
@@ -1,6 +1,153 @@
 export type LayoutMode = 'auto' | 'js';
 
-export interface MasonryOptions<T> {
+/**
+ * Layout algorithm.
+ * - `'masonry'` — vertical columns, items keep their measured height.
+ * - `'justified'` — horizontal rows (Flickr/Google Photos style), items keep
+ *   their aspect ratio and every full row fills the container width.
+ */
+export type LayoutType = 'masonry' | 'justified';
+
+/**
+ * How masonry items are assigned to columns.
+ * - `'shortest'` — each item goes to the shortest column (may reorder items visually).
+ * - `'sequential'` — round-robin left-to-right, so reading order is kept.
+ * - `'balanced'` — each row of `columns` items stays in reading order, unless placing it
+ *   tallest-first onto the shortest columns evens out the column bottoms.
+ */
+export type PlacementStrategy = 'shortest' | 'sequential' | 'balanced';
+
+/** How the last, incomplete row of a justified layout is laid out. */
+export type LastRowBehavior = 'left' | 'justify';
+
+/** Column settings applied from a given container width upwards. */
+export interface Breakpoint {
+  /** Exact column count. Overrides `minColWidth` */
+  cols?: number;
+  /** Space between items in pixels */
+  gutter?: number;
+  /** Minimum column width in pixels. Clears a `cols` inherited from a smaller breakpoint */
+  minColWidth?: number;
+}
+
+/**
+ * Breakpoints keyed by minimum container width in pixels, mobile first:
+ * every breakpoint at or below the container width applies, larger ones win.
+ *
+ * @example
+ * { 0: { cols: 1, gutter: 8 }, 640: { cols: 2 }, 1024: { cols: 4, gutter: 24 } }
+ */
+export type Breakpoints = Record<number, Breakpoint>;
+
+/** Optional column settings on top of `gutter` / `minColWidth`. */
+export interface ColumnSettings {
+  /** Fixed column count. Overrides `minColWidth` */
+  columns?: number;
+  /** Upper bound for the column count */
+  maxColumns?: number;
+  /** Upper bound for the column width in pixels; adds columns when exceeded */
+  maxColWidth?: number;
+  /** Per-width overrides for `cols`, `gutter` and `minColWidth` */
+  breakpoints?: Breakpoints;
+}
+
+/** Everything needed to resolve columns for a container width. */
+export interface ColumnConfig extends ColumnSettings {
+  /** Space between items in pixels */
+  gutter: number;
+  /** Minimum column width in pixels */
+  minColWidth: number;
+}
+
+/** Columns resolved for a specific container width. */
+export interface ResolvedColumns {
+  /** Number of columns */
+  columns: number;
+  /** Width of a single column in pixels */
+  columnWidth: number;
+  /** Space between items in pixels (after breakpoints) */
+  gutter: number;
+}
+
+/**
+ * Size hints for items whose dimensions are known up front (e.g. images with
+ * width/height from an API). Hinted items are laid out without DOM measurement;
+ * items without a hint (`undefined`) are still measured.
+ */
+export interface ItemSizeHints<T> {
+  /** Height of an item at the given width in pixels (column width, or wider for spanning items) */
+  getItemSize?: (item: T, width: number) => number | undefined;
+  /**
+   * Width / height ratio of an item. In masonry layouts the height is derived as
+   * `width / ratio`; justified rows treat a missing ratio as 1
+   */
+  getAspectRatio?: (item: T) => number | undefined;
+}
+
+/**
+ * Estimated height of an item at the given width in pixels, used until it has
+ * been rendered and measured (virtualization). Unlike size hints, estimated
+ * items are still measured once they are rendered.
+ */
+export type HeightEstimator<T> = (item: T, index: number, width: number) => number;
+
+/** Stable identity of an item across updates. */
+export type ItemKey = string | number;
+
+/** Whether an item is shown (see `filter`). */
+export type ItemFilter<T> = (item: T) => boolean;
+
+/** Order of two items, as for `Array.prototype.sort` (see `sort`). */
+export type ItemComparator<T> = (a: T, b: T) => number;
+
+/** Rectangle in container coordinates (relative to the container's top-left corner). */
+export interface Rect {
+  /** Horizontal offset in pixels */
+  x: number;
+  /** Vertical offset in pixels */
+  y: number;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+}
+
+/** Area a stamp occupies, in container coordinates. */
+export type StampRect = Rect;
+
+/**
+ * Fixed area items flow around, e.g. a pinned promo box. Either an element that
+ * is positioned by your own CSS (measured relative to the container on every
+ * layout) or a rectangle in container coordinates.
+ */
+export type Stamp = HTMLElement | StampRect;
+
+/**
+ * Scrollable ancestor that drives virtualization (a panel, a modal, one side of
+ * a split pane): an element, or a getter for elements that are created later.
+ */
+export type ScrollElement = HTMLElement | (() => HTMLElement | null | undefined);
+
+/** Where `scrollToIndex` places the item within the viewport. */
+export type ScrollAlign = 'start' | 'center' | 'end';
+
+/** Options for `scrollToIndex`. */
+export interface ScrollToIndexOptions {
+  /** Align the item with the top, middle or bottom of the viewport. Default: 'start' */
+  align?: ScrollAlign;
+  /** Native scroll behavior, e.g. 'smooth'. Default: 'auto' */
+  behavior?: ScrollBehavior;
+}
+
+/** A batch of items (initial render, update or append) whose images have settled. */
+export interface ImagesSettledEvent<T> {
+  /** Items rendered in the batch, in grid order */
+  items: T[];
+  /** Images of the batch that failed to load */
+  failed: HTMLImageElement[];
+}
+
+export interface MasonryOptions<T> extends ColumnSettings, ItemSizeHints<T> {
   /**
    * Engine strategy.
    * - `'auto'` (default) — uses native CSS `grid-template-rows: masonry` when the
@@ -16,8 +163,270 @@ export interface MasonryOptions<T> {
   animate?: boolean;
   /** Transition duration in ms (JS mode only). Default: 400 */
   transitionDuration?: number;
+  /**
+   * Enter, leave and move animations for added, removed and reordered items,
+   * in both engines (`true` for the defaults). Replaces the `animate`
+   * transition when set
+   */
+  animations?: boolean | ItemAnimations;
   /** Array of data items to render */
   items: T[];
   /** Function that receives an item and returns an HTMLElement */
   renderItem: (item: T) => HTMLElement;
+  /**
+   * Stable key of an item. When set, `updateItems` reuses the elements of items
+   * whose key is still present (without calling `renderItem` again) and only
+   * inserts, removes and reorders what changed
+   */
+  getKey?: (item: T) => ItemKey;
+  /**
+   * Show only the items it returns true for. Filtered-out items keep their
+   * element, hidden with `display: none`, until they match again; indices of
+   * the methods and queries refer to the shown items
+   */
+  filter?: ItemFilter<T>;
+  /** Order the shown items (stable: ties keep their order in `items`) */
+  sort?: ItemComparator<T>;
+  /**
+   * Number of columns an item spans (e.g. featured cards). Clamped to the
+   * available column count. Default: every item spans 1 column
+   */
+  getItemSpan?: (item: T) => number;
+  /**
+   * Column assignment strategy for masonry layouts. Anything other than
+   * `'shortest'` uses the JS engine. Default: 'shortest'
+   */
+  placement?: PlacementStrategy;
+  /**
+   * Baseline row height in pixels. Each item's vertical slot is rounded up to a
+   * whole number of rows (`snapUnit` tall, `gutter` apart) so column bottoms line
+   * up. CSS mode uses `grid-auto-rows` and per-item `grid-row: span N`
+   */
+  snapUnit?: number;
+  /**
+   * Fixed elements or rectangles that masonry items flow around. Every column a
+   * stamp overlaps starts below it. Stamps always use the JS engine; element
+   * stamps may live inside the container and are kept across re-renders
+   */
+  stamps?: Stamp[];
+  /**
+   * Show items as placeholders (class `msgl-item--loading`) until the `<img>`
+   * elements inside them have loaded or failed. The grid re-lays out as each
+   * item's images settle. Default: false
+   */
+  waitForImages?: boolean;
+  /** Called once all images of a batch have settled (`waitForImages` only) */
+  onImagesSettled?: (event: ImagesSettledEvent<T>) => void;
+  /**
+   * Keep only the items in and near the viewport in the DOM (JS engine only).
+   * Every item is rendered once to measure it; afterwards `renderItem` runs
+   * again whenever an item scrolls back into view. Default: false
+   */
+  virtualize?: boolean;
+  /** Pixels rendered above and below the viewport when virtualizing. Default: 300 */
+  overscan?: number;
+  /**
+   * Height of items that have not been measured yet (virtualization). With it,
+   * only items near the viewport are rendered and measured; positions are
+   * corrected as measurements arrive. Without it, every item is rendered once
+   */
+  estimateItemHeight?: HeightEstimator<T>;
+  /**
+   * Scroll container the grid is virtualized against; its `scrollTop` and
+   * `clientHeight` define the viewport. Default: the window
+   */
+  scrollElement?: ScrollElement;
+  /**
+   * Called when the end of the shortest column comes within
+   * `endReachedThreshold` of the bottom of the viewport (or `scrollElement`),
+   * at most once per `items` length. Load the next page here
+   */
+  onEndReached?: () => void;
+  /** Distance in pixels from the end at which `onEndReached` fires. Default: 300 */
+  endReachedThreshold?: number;
+  /**
+   * Event listeners registered before the first render, so its
+   * `itemsRendered` and `layoutComplete` events are not missed. Later
+   * listeners can be added with `on()`
+   */
+  on?: MasonryEventHandlers<T>;
+  /**
+   * Keep the first visible item in place when a layout moves it, e.g. after
+   * heights above the viewport are corrected or items are prepended (JS
+   * engines only). Default: true
+   */
+  scrollAnchoring?: boolean;
+  /** Layout algorithm. Justified rows always use the JS engine. Default: 'masonry' */
+  layoutType?: LayoutType;
+  /** Preferred row height in pixels (justified only). Default: 240 */
+  targetRowHeight?: number;
+  /** Upper bound for row heights in pixels (justified only). Default: no limit */
+  maxRowHeight?: number;
+  /**
+   * Last incomplete row (justified only).
+   * - `'left'` (default) — keep `targetRowHeight` and align items to the left.
+   * - `'justify'` — stretch the row to the full width (bounded by `maxRowHeight`).
+   */
+  lastRow?: LastRowBehavior;
+}
+
+/** Computed placement of a single item, relative to the container's top-left corner. */
+export interface ItemPosition {
+  /** Horizontal offset in pixels */
+  x: number;
+  /** Vertical offset in pixels */
+  y: number;
+  /** Rendered width in pixels */
+  width: number;
+  /** Height used for placement in pixels */
+  height: number;
+  /** Index of the column the item starts in */
+  column: number;
+}
+
+/**
+ * Read-only snapshot of a grid's current layout (`getLayout()`). In CSS
+ * masonry mode the positions are read from the rendered items.
+ */
+export interface LayoutSnapshot {
+  /** Number of columns (0 for justified rows) */
+  readonly columns: number;
+  /** Width of a single column in pixels (0 for justified rows) */
+  readonly columnWidth: number;
+  /** Space between items in pixels (after breakpoints) */
+  readonly gutter: number;
+  /** Position of each item, in item order */
+  readonly positions: readonly Readonly<ItemPosition>[];
+  /** Total content height in pixels */
+  readonly height: number;
+}
+
+/** Built-in enter / leave effects; leaving items play them in reverse. */
+export type ItemAnimationPreset = 'fade' | 'scale' | 'fade-scale';
+
+/** Enter, leave and move animations of the items (see `animations`). */
+export interface ItemAnimations {
+  /**
+   * Effect of added items and items shown again by `filter`: a preset or Web
+   * Animations keyframes. Default: 'fade-scale'
+   */
+  enter?: ItemAnimationPreset | Keyframe[] | false;
+  /**
+   * Effect of removed and filtered-out items, played over the slot they leave
+   * before they are detached or hidden: a preset (reversed) or keyframes.
+   * Default: 'fade'
+   */
+  leave?: ItemAnimationPreset | Keyframe[] | false;
+  /** Slide items that changed position from their old place. Default: true */
+  move?: boolean;
+  /** Duration in ms. Default: `transitionDuration` */
+  duration?: number;
+  /** CSS easing function. Default: 'ease' */
+  easing?: string;
+  /** Delay in ms added for each further item of a batch. Default: 0 */
+  stagger?: number;
+}
+
+/** Engine placing the items: native CSS masonry, or one of the JS layouts. */
+export type LayoutEngine = 'css' | 'justified' | 'masonry';
+
+/** Lifecycle events of a grid and their payloads. */
+export interface MasonryEventMap<T> {
+  /** A layout pass finished; the payload is the new layout */
+  layoutComplete: LayoutSnapshot;
+  /** The column count changed (`previous` is 0 for the first layout) */
+  columnsChange: { columns: number; previous: number };
+  /** Items got elements: initial render, added items, items scrolled into view */
+  itemsRendered: { items: T[]; elements: HTMLElement[] };
+  /** An item's element left the DOM: the item was removed or virtualized away */
+  itemRemoved: { item: T; element: HTMLElement };
+  /** The engine placing the items changed, e.g. CSS masonry to JS */
+  engineChange: { engine: LayoutEngine; previous: LayoutEngine };
+}
+
+/** Listener for the `K` events of a grid. */
+export type MasonryEventListener<T, K extends keyof MasonryEventMap<T>> = (
+  event: MasonryEventMap<T>[K]
+) => void;
+
+/** One optional listener per event type. */
+export type MasonryEventHandlers<T> = {
+  [K in keyof MasonryEventMap<T>]?: MasonryEventListener<T, K>;
+};
+
+/** Optional layout settings shared by the pure core and the JS engine. */
+export interface MasonryLayoutSettings extends ColumnSettings {
+  /** Column span of each item, in item order. Missing entries span 1 column */
+  spans?: number[];
+  /** Column assignment strategy. Default: 'shortest' */
+  placement?: PlacementStrategy;
+  /** Base row height in pixels; item slots are rounded up to whole rows */
+  snapUnit?: number;
+  /** Areas items flow around; overlapped columns start below them */
+  stamps?: StampRect[];
+  /** Known heights in item order; `undefined` entries are measured (JS engine only) */
+  knownHeights?: (number | undefined)[];
+}
+
+/** Input for the pure, DOM-free masonry layout. */
+export interface MasonryLayoutInput extends MasonryLayoutSettings {
+  /** Available container width in pixels */
+  containerWidth: number;
+  /** Space between items in pixels (may be overridden by `breakpoints`) */
+  gutter: number;
+  /** Minimum column width in pixels */
+  minColWidth: number;
+  /** Height of each item in pixels, in item order */
+  heights: number[];
+}
+
+/** Result of the pure masonry layout. */
+export interface MasonryLayoutResult {
+  /** Number of columns */
+  columns: number;
+  /** Width of a single column in pixels */
+  columnWidth: number;
+  /** Space between items in pixels (after breakpoints) */
+  gutter: number;
+  /** Position of each item, in item order */
+  positions: ItemPosition[];
+  /**
+   * Offset at which the next item in each column would start
+   * (includes the trailing gutter of the last item in that column).
+   */
+  columnHeights: number[];
+  /** Total content height in pixels (trailing gutter excluded) */
+  height: number;
+}
+
+/** Masonry layout applied by the JS engine. */
+export interface AppliedMasonryLayout extends MasonryLayoutResult {
+  /** Height each placed item was laid out with (known or measured, before snapping) */
+  itemHeights: number[];
+}
+
+/** Input for the pure, DOM-free justified row layout. */
+export interface JustifiedLayoutInput {
+  /** Available container width in pixels */
+  containerWidth: number;
+  /** Space between items and rows in pixels */
+  gutter: number;
+  /** Width / height ratio of each item, in item order */
+  aspectRatios: number[];
+  /** Preferred row height in pixels */
+  targetRowHeight: number;
+  /** Upper bound for row heights in pixels. Default: no limit */
+  maxRowHeight?: number;
+  /** Last incomplete row behavior. Default: 'left' */
+  lastRow?: LastRowBehavior;
+}
+
+/** Result of the pure justified row layout. */
+export interface JustifiedLayoutResult {
+  /** Position of each item, in item order (`column` is the index within its row) */
+  positions: ItemPosition[];
+  /** Height of each row in pixels */
+  rowHeights: number[];
+  /** Total content height in pixels (trailing gutter excluded) */
+  height: number;
 }
@@ -1,3 +1,5 @@
+import { Rect, ScrollElement, ScrollToIndexOptions, Stamp, StampRect } from './types';
+
 /**
  * Calculate the number of columns that fit in the container width.
  * Returns at least 1 column even for zero-width containers.
@@ -21,3 +23,121 @@ export function supportsCss(property: string, value: string): boolean {
     return false;
   }
 }
+
+/**
+ * Rectangle of `el` in container coordinates, relative to the container's
+ * padding box. `origin` is the container's bounding rect when already known.
+ */
+export function getRectWithin(
+  el: HTMLElement,
+  container: HTMLElement,
+  origin = container.getBoundingClientRect()
+): Rect {
+  const rect = el.getBoundingClientRect();
+  return {
+    x: rect.left - origin.left - container.clientLeft,
+    y: rect.top - origin.top - container.clientTop,
+    width: rect.width,
+    height: rect.height,
+  };
+}
+
+/**
+ * Resolve stamps to rectangles in container coordinates. Elements are measured
+ * relative to the container's padding box; rectangles are returned unchanged.
+ */
+export function getStampRects(container: HTMLElement, stamps: Stamp[]): StampRect[] {
+  if (stamps.length === 0) return [];
+  const origin = container.getBoundingClientRect();
+
+  return stamps.map((stamp) =>
+    stamp instanceof HTMLElement ? getRectWithin(stamp, container, origin) : stamp
+  );
+}
+
+/**
+ * True when `next` is `prev` with items added to the end (compared by identity).
+ */
+export function isAppend<T>(prev: T[], next: T[]): boolean {
+  return next.length > prev.length && prev.every((item, i) => next[i] === item);
+}
+
+/** Resolve a `scrollElement` option; `null` means the window scrolls. */
+export function resolveScrollElement(scrollElement?: ScrollElement | null): HTMLElement | null {
+  if (typeof scrollElement === 'function') return scrollElement() ?? null;
+  return scrollElement ?? null;
+}
+
+/** Scroll offset and visible height of `scroller`, or of the window. */
+export function getScrollState(scroller: HTMLElement | null): {
+  scrollTop: number;
+  viewportHeight: number;
+} {
+  if (scroller) return { scrollTop: scroller.scrollTop, viewportHeight: scroller.clientHeight };
+  return { scrollTop: window.scrollY, viewportHeight: window.innerHeight };
+}
+
+/**
+ * Top of `el` within the scrollable content of `scroller` (the document for
+ * the window), i.e. the scroll offset at which `el` reaches the top edge.
+ */
+export function getScrollOffsetTop(el: HTMLElement, scroller: HTMLElement | null): number {
+  const { top } = el.getBoundingClientRect();
+  if (!scroller) return top + window.scrollY;
+  return top - scroller.getBoundingClientRect().top - scroller.clientTop + scroller.scrollTop;
+}
+
+/**
+ * Scroll `scroller` (or the window) so the box at `y` (from the top of
+ * `container`) with the given `height` is aligned with the start, center or
+ * end of the viewport.
+ */
+export function scrollToBox(
+  container: HTMLElement,
+  scroller: HTMLElement | null,
+  y: number,
+  height: number,
+  { align = 'start', behavior }: ScrollToIndexOptions = {}
+): void {
+  const { viewportHeight } = getScrollState(scroller);
+  const space = viewportHeight - height;
+  const offset = align === 'center' ? space / 2 : align === 'end' ? space : 0;
+  const top = Math.max(0, getScrollOffsetTop(container, scroller) + y - offset);
+
+  if (scroller) scroller.scrollTo({ top, behavior });
+  else window.scrollTo({ top, behavior });
+}
+
+/**
+ * True when the bottom of the viewport of `scroller` (or the window) is within
+ * `threshold` pixels of `end`, an offset from the top of `container`.
+ */
+export function isNearEnd(
+  container: HTMLElement,
+  scroller: HTMLElement | null,
+  end: number,
+  threshold: number
+): boolean {
+  const { scrollTop, viewportHeight } = getScrollState(scroller);
+  return scrollTop + viewportHeight - getScrollOffsetTop(container, scroller) >= end - threshold;
+}
+
+/**
+ * Call `onChange` when `scroller` (or the window) scrolls or its visible area
+ * may have changed size. Returns a function that stops listening.
+ */
+export function listenToScroll(scroller: HTMLElement | null, onChange: () => void): () => void {
+  const target: HTMLElement | Window = scroller ?? window;
+  target.addEventListener('scroll', onChange, { passive: true });
+  window.addEventListener('resize', onChange);
+
+  const observer =
+    scroller && typeof ResizeObserver !== 'undefined' ? new ResizeObserver(onChange) : null;
+  if (scroller) observer?.observe(scroller);
+
+  return () => {
+    target.removeEventListener('scroll', onChange);
+    window.removeEventListener('resize', onChange);
+    observer?.disconnect();
+  };
+}
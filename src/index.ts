@@ -1,2 +1,49 @@
 export { default } from './core/MasonrySnapGridLayout';
-export type { MasonryOptions, LayoutMode } from './core/types';
+export {
+  appendMasonryLayout,
+  computeMasonryLayout,
+  computeJustifiedLayout,
+  getEstimatedHeights,
+  getKnownHeights,
+  getShortestColumnHeight,
+  getSnapSpan,
+  resolveColumns,
+} from './core/computeLayout';
+export { findItemAtPoint, findItemsInRect } from './core/layoutQuery';
+export { createGridCss, getGridClassName } from './core/cssEngine';
+export { getVisibleItems } from './core/itemView';
+export type {
+  MasonryOptions,
+  LayoutMode,
+  LayoutType,
+  LastRowBehavior,
+  PlacementStrategy,
+  ScrollElement,
+  ScrollAlign,
+  ScrollToIndexOptions,
+  Stamp,
+  StampRect,
+  Rect,
+  LayoutSnapshot,
+  LayoutEngine,
+  ItemAnimations,
+  ItemAnimationPreset,
+  MasonryEventMap,
+  MasonryEventListener,
+  MasonryEventHandlers,
+  Breakpoint,
+  Breakpoints,
+  ColumnConfig,
+  ResolvedColumns,
+  ItemSizeHints,
+  HeightEstimator,
+  ItemKey,
+  ItemFilter,
+  ItemComparator,
+  ImagesSettledEvent,
+  ItemPosition,
+  MasonryLayoutInput,
+  MasonryLayoutResult,
+  JustifiedLayoutInput,
+  JustifiedLayoutResult,
+} from './core/types';
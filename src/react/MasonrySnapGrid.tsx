@@ -1,13 +1,72 @@
 import React, {
+  forwardRef,
   useCallback,
   useEffect,
+  useImperativeHandle,
   useLayoutEffect,
   useMemo,
   useRef,
   useState,
 } from 'react';
-import { LayoutMode } from '../core/types';
-import { getColumnCount, supportsCss } from '../core/utils';
+import {
+  Breakpoints,
+  ColumnConfig,
+  HeightEstimator,
+  ImagesSettledEvent,
+  ItemAnimations,
+  ItemComparator,
+  ItemFilter,
+  ItemKey,
+  ItemPosition,
+  LastRowBehavior,
+  LayoutEngine,
+  LayoutMode,
+  LayoutSnapshot,
+  LayoutType,
+  MasonryEventHandlers,
+  MasonryEventMap,
+  MasonryLayoutInput,
+  MasonryLayoutResult,
+  PlacementStrategy,
+  Rect,
+  ScrollElement,
+  ScrollToIndexOptions,
+  Stamp,
+} from '../core/types';
+import {
+  appendMasonryLayout,
+  computeJustifiedLayout,
+  computeMasonryLayout,
+  getEstimatedHeights,
+  getKnownHeights,
+  getShortestColumnHeight,
+  getSnapSpan,
+  resolveColumns,
+} from '../core/computeLayout';
+import { createGridCss, getGridClassName, hasColumnSettings } from '../core/cssEngine';
+import {
+  getScrollOffsetTop,
+  getScrollState,
+  getStampRects,
+  isAppend,
+  isNearEnd,
+  listenToScroll,
+  resolveScrollElement,
+  scrollToBox,
+  supportsCss,
+} from '../core/utils';
+import { createItemObserver, ItemObserver } from '../core/itemObserver';
+import { getPendingImages, LOADING_CLASS, waitForImageLoad } from '../core/imageLoader';
+import { getScrollAnchor, restoreScrollAnchor, ScrollAnchor } from '../core/scrollAnchor';
+import { getVisibleItems } from '../core/itemView';
+import { Animator, createAnimator, ElementBoxes, resolveAnimations } from '../core/animator';
+import {
+  createLayoutSnapshot,
+  findItemAtPoint,
+  findItemsInRect,
+  getPositionsHeight,
+  measurePositions,
+} from '../core/layoutQuery';
 
 /**
  * Public component props
@@ -16,6 +75,16 @@ export interface MasonrySnapGridProps<T> {
   /** Data items to render */
   items: T[];
 
+  /**
+   * Show only the items it returns true for. Filtered-out items stay mounted,
+   * hidden with `display: none`, so their state survives (set `getItemKey`).
+   * Indices of the ref methods and callbacks refer to the shown items
+   */
+  filter?: ItemFilter<T>;
+
+  /** Order the shown items (stable: ties keep their order in `items`) */
+  sort?: ItemComparator<T>;
+
   /**
    * Layout engine strategy
    * - 'auto' (default) -> use CSS masonry if supported
@@ -29,15 +98,104 @@ export interface MasonrySnapGridProps<T> {
   /** Minimum column width (px) */
   minColWidth?: number;
 
+  /** Fixed column count (overrides minColWidth) */
+  columns?: number;
+
+  /** Upper bound for the column count */
+  maxColumns?: number;
+
+  /** Upper bound for the column width (px); adds columns when exceeded */
+  maxColWidth?: number;
+
+  /**
+   * Per-width column settings, keyed by minimum container width (px)
+   * e.g. { 0: { cols: 1, gutter: 8 }, 640: { cols: 2 }, 1024: { cols: 4, gutter: 24 } }
+   */
+  breakpoints?: Breakpoints;
+
   /** Enable transform transition animations */
   animate?: boolean;
 
   /** Transition duration in milliseconds */
   transitionDuration?: number;
 
+  /**
+   * Enter, leave and move animations for added, removed and reordered items,
+   * in JS and CSS mode (`true` for the defaults). Replaces the `animate`
+   * transition. Leaving items are found by identity, so keep item objects
+   * stable and set `getItemKey`
+   */
+  animations?: boolean | ItemAnimations;
+
   /** Item renderer */
   renderItem: (item: T) => React.ReactNode;
 
+  /**
+   * Stable key of an item, used as the React key of its wrapper and for the
+   * measured height cache. Default: the array index
+   */
+  getItemKey?: (item: T, index: number) => ItemKey;
+
+  /** Number of columns an item spans (clamped to the column count) */
+  getItemSpan?: (item: T) => number;
+
+  /**
+   * Column assignment strategy
+   * - 'shortest' (default) -> shortest column first
+   * - 'sequential' -> round-robin, keeps reading order (JS only)
+   * - 'balanced' -> row-by-row, evens out column bottoms (JS only)
+   */
+  placement?: PlacementStrategy;
+
+  /**
+   * Baseline row height (px). Item slots are rounded up to whole rows so
+   * column bottoms line up; CSS mode uses grid-auto-rows + grid-row spans
+   */
+  snapUnit?: number;
+
+  /**
+   * Fixed areas items flow around: elements (or refs to them) positioned by
+   * your own CSS, or rectangles in container coordinates (JS only)
+   */
+  stamps?: (Stamp | React.RefObject<HTMLElement>)[];
+
+  /**
+   * Layout algorithm
+   * - 'masonry' (default) -> vertical columns
+   * - 'justified' -> full-width rows of aspect-ratio-preserving items (JS only)
+   */
+  layoutType?: LayoutType;
+
+  /** Preferred row height in justified mode (px) */
+  targetRowHeight?: number;
+
+  /** Maximum row height in justified mode (px) */
+  maxRowHeight?: number;
+
+  /** Last incomplete row in justified mode: 'left' (default) or 'justify' */
+  lastRow?: LastRowBehavior;
+
+  /**
+   * Width / height ratio of an item. Justified rows use it for sizing (default 1);
+   * masonry items with a ratio are positioned without DOM measurement
+   */
+  getAspectRatio?: (item: T) => number | undefined;
+
+  /**
+   * Known height of an item at the given width (px). Hinted items are
+   * positioned without DOM measurement, so layout is ready before images load
+   */
+  getItemSize?: (item: T, width: number) => number | undefined;
+
+  /**
+   * Show items as placeholders (msgl-item--loading) until their images have
+   * loaded or failed; the grid re-lays out as each item settles
+   */
+  waitForImages?: boolean;
+
+  /** Called once all images of a batch of newly rendered items have settled */
+  onImagesSettled?: (event: ImagesSettledEvent<T>) => void;
+
   /** Optional container class */
   className?: string;
 
@@ -49,15 +207,117 @@ export interface MasonrySnapGridProps<T> {
 
   /** Extra viewport buffer when virtualizing */
   overscan?: number;
+
+  /**
+   * Height of an unmeasured item at its width (px). When virtualizing, items
+   * are placed with it right away and only those near the viewport are
+   * measured; positions are corrected as measurements arrive
+   */
+  estimateItemHeight?: HeightEstimator<T>;
+
+  /**
+   * Scroll container to virtualize against (element, ref or getter); its
+   * scrollTop and clientHeight define the viewport. Default: the window.
+   * Keep getters stable (useCallback) to avoid re-subscribing every render
+   */
+  scrollElement?: ScrollElement | React.RefObject<HTMLElement>;
+
+  /**
+   * Keep the first visible item in place when a layout moves it (height
+   * corrections above the viewport, prepended items). Items are followed by
+   * `getItemKey`, or by identity without it. Default: true
+   */
+  scrollAnchoring?: boolean;
+
+  /**
+   * Called when the end of the shortest column comes within
+   * `endReachedThreshold` of the viewport, once per `items` length
+   */
+  onEndReached?: () => void;
+
+  /** Distance in pixels from the end at which `onEndReached` fires. Default: 300 */
+  endReachedThreshold?: number;
+
+  /** Called after every layout with a snapshot of it */
+  onLayoutComplete?: (layout: LayoutSnapshot) => void;
+
+  /** Called when a layout changes the column count (0 for justified rows) */
+  onColumnsChange?: (event: MasonryEventMap<T>['columnsChange']) => void;
+
+  /** Called with the items whose wrappers were just mounted, and the wrappers */
+  onItemsRendered?: (event: MasonryEventMap<T>['itemsRendered']) => void;
+
+  /** Called for each item wrapper that was unmounted (removed or virtualized out) */
+  onItemRemoved?: (event: MasonryEventMap<T>['itemRemoved']) => void;
+
+  /** Called when the grid switches between the CSS, masonry and justified engines */
+  onEngineChange?: (event: MasonryEventMap<T>['engineChange']) => void;
+}
+
+/**
+ * Imperative handle exposed through `ref`
+ */
+export interface MasonrySnapGridHandle {
+  /**
+   * Scroll the window (or `scrollElement`) so the item at `index` is aligned
+   * with the start, center or end of the viewport. Uses the computed
+   * positions, so virtualized items can be reached too
+   */
+  scrollToIndex(index: number, options?: ScrollToIndexOptions): void;
+
+  /**
+   * Read-only snapshot of the current layout: column count and width, the
+   * position of every item (virtualized ones included) and the total height
+   */
+  getLayout(): LayoutSnapshot;
+
+  /** Box of the item at `index` in container coordinates, or `null` when out of range */
+  getItemRect(index: number): ItemPosition | null;
+
+  /** Index of the item at `(x, y)` in container coordinates, or -1 for none */
+  getItemAtPoint(x: number, y: number): number;
+
+  /** Indices of the items overlapping `rect` (container coordinates), in item order */
+  getItemsInRect(rect: Rect): number[];
+}
+
+/**
+ * Unwrap a `scrollElement` ref or getter; `null` means the window scrolls
+ */
+function resolveScroller(
+    scrollElement?: ScrollElement | React.RefObject<HTMLElement>
+): HTMLElement | null {
+  return resolveScrollElement(
+      scrollElement && 'current' in scrollElement ? scrollElement.current : scrollElement
+  );
 }
 
 /**
- * Internal layout position for each item
+ * Calls `onSnapshot` before React applies a commit to the DOM, while the item
+ * wrappers are still where the previous commit left them. Function components
+ * have no hook for this moment
  */
-interface ItemPosition {
-  x: number;
-  y: number;
-  width: number;
+class BeforeCommit extends React.Component<{ onSnapshot: () => void }> {
+  getSnapshotBeforeUpdate(): null {
+    this.props.onSnapshot();
+    return null;
+  }
+
+  // Required alongside getSnapshotBeforeUpdate
+  componentDidUpdate(): void {}
+
+  render(): null {
+    return null;
+  }
+}
+
+/**
+ * Unwrap ref stamps; refs that are not attached yet are skipped
+ */
+function resolveStamps(stamps: (Stamp | React.RefObject<HTMLElement>)[]): Stamp[] {
+  return stamps
+      .map((stamp) => ('current' in stamp ? stamp.current : stamp))
+      .filter((stamp): stamp is Stamp => stamp !== null);
 }
 
 /**
@@ -73,18 +333,60 @@ interface ItemPosition {
  * to calculate column flow similar to Pinterest layouts.
  */
 function MasonrySnapGrid<T>({
-                              items,
+                              items: allItems,
+                              filter,
+                              sort,
                               layoutMode = 'auto',
                               gutter = 16,
                               minColWidth = 250,
+                              columns,
+                              maxColumns,
+                              maxColWidth,
+                              breakpoints,
                               animate = true,
                               transitionDuration = 400,
+                              animations,
                               renderItem,
+                              getItemKey,
+                              getItemSpan,
+                              placement = 'shortest',
+                              snapUnit,
+                              stamps,
+                              layoutType = 'masonry',
+                              targetRowHeight = 240,
+                              maxRowHeight,
+                              lastRow = 'left',
+                              getAspectRatio,
+                              getItemSize,
+                              waitForImages = false,
+                              onImagesSettled,
                               className,
                               style,
                               virtualize = false,
                               overscan = 300,
-                            }: MasonrySnapGridProps<T>) {
+                              scrollElement,
+                              estimateItemHeight,
+                              scrollAnchoring = true,
+                              onEndReached,
+                              endReachedThreshold = 300,
+                              onLayoutComplete,
+                              onColumnsChange,
+                              onItemsRendered,
+                              onItemRemoved,
+                              onEngineChange,
+                            }: MasonrySnapGridProps<T>,
+                            ref: React.ForwardedRef<MasonrySnapGridHandle>) {
+
+  /**
+   * Shown items, in the order they are shown; indices below refer to them.
+   * Filtered-out items keep a hidden wrapper after the shown ones
+   */
+  const items = useMemo(() => getVisibleItems(allItems, filter, sort), [allItems, filter, sort]);
+  const hiddenItems = useMemo(() => {
+    if (items === allItems) return [];
+    const shown = new Set(items);
+    return allItems.filter((item) => !shown.has(item));
+  }, [allItems, items]);
 
   /**
    * Container DOM reference
@@ -98,13 +400,22 @@ function MasonrySnapGrid<T>({
   const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
 
   /**
-   * Cache of measured item heights
-   * Prevents unnecessary re-measurement
+   * Cache of measured item heights by item key
+   * Prevents unnecessary re-measurement and survives reordering
+   */
+  const cachedHeightsRef = useRef(new Map<ItemKey, number>());
+
+  /**
+   * Key of an item: `getItemKey` or its index
    */
-  const cachedHeightsRef = useRef<number[]>([]);
+  const keyOf = useCallback(
+      (item: T, index: number): ItemKey => (getItemKey ? getItemKey(item, index) : index),
+      [getItemKey]
+  );
 
   /**
-   * Absolute container offset from document top
+   * Container offset within the scroll container's content
+   * (from document top when the window scrolls)
    * Used for virtualization calculations
    */
   const containerAbsTopRef = useRef(0);
@@ -125,7 +436,77 @@ function MasonrySnapGrid<T>({
    * Stable reference to layout computation function
    * Allows effects to call the latest version safely
    */
-  const computeLayoutRef = useRef<() => void>(() => {});
+  const computeLayoutRef = useRef<(remeasure?: boolean) => void>(() => {});
+
+  /**
+   * Shared ResizeObserver for item wrappers, and the cache key of every
+   * wrapper it currently tracks
+   */
+  const itemObserverRef = useRef<ItemObserver | null>(null);
+  const trackedKeysRef = useRef(new Map<HTMLElement, ItemKey>());
+
+  /**
+   * Last masonry layout with the items and settings it was computed from,
+   * continued incrementally when items are only appended
+   */
+  const lastLayoutRef = useRef<{
+    items: T[];
+    settingsKey: object;
+    layout: MasonryLayoutResult;
+  } | null>(null);
+
+  /**
+   * Positions of the last computed layout with the identity of each item
+   * (`getItemKey` or the item), and the scroll anchor taken before a layout
+   * that is restored once it is committed
+   */
+  const laidOutRef = useRef<{ positions: ItemPosition[]; ids: unknown[] }>({
+    positions: [],
+    ids: [],
+  });
+  const anchorRef = useRef<ScrollAnchor | null>(null);
+
+  /**
+   * Where the laid-out content first ends (the shortest masonry column), the
+   * items length `onEndReached` last fired for, and the latest callback
+   */
+  const contentEndRef = useRef(0);
+  const endReachedLengthRef = useRef(-1);
+  const onEndReachedRef = useRef(onEndReached);
+
+  /**
+   * Item each wrapper's images were waited for, the pending waits, and the
+   * latest settle callback (`waitForImages`)
+   */
+  const imageItemsRef = useRef(new WeakMap<HTMLElement, T>());
+  const imageWaitsRef = useRef(new Set<() => void>());
+  const onImagesSettledRef = useRef(onImagesSettled);
+
+  /**
+   * Latest lifecycle callbacks, the column count and engine they were last
+   * reported with, and the item of every mounted wrapper
+   */
+  const eventsRef = useRef<MasonryEventHandlers<T>>({});
+  const columnsRef = useRef(0);
+  const engineRef = useRef<LayoutEngine | null>(null);
+  const mountedItemsRef = useRef(new Map<HTMLElement, T>());
+
+  /**
+   * Wrappers hidden by `filter` at the last commit, with their items. They stay
+   * mounted, so hiding and showing them again is not reported
+   */
+  const hiddenWrappersRef = useRef(new Map<HTMLElement, T>());
+
+  /**
+   * Enter / leave / move animations: the animator of the container, the
+   * wrapper boxes measured before the current commit and the items of the
+   * previous commit, which tell added and removed items apart from
+   * virtualized ones
+   */
+  const itemAnimations = resolveAnimations(animations, transitionDuration);
+  const animatorRef = useRef<Animator | null>(null);
+  const firstBoxesRef = useRef<ElementBoxes | null>(null);
+  const committedItemsRef = useRef<ReadonlySet<T> | null>(null);
 
   /**
    * Client mount detection (avoids SSR mismatch)
@@ -147,11 +528,26 @@ function MasonrySnapGrid<T>({
    */
   const [useCss, setUseCss] = useState(false);
 
+  /**
+   * Stamps force JS positioning; native masonry cannot flow around them
+   */
+  const hasStamps = (stamps?.length ?? 0) > 0;
+
   /**
    * Virtualization activation state
    */
   const [isMeasured, setIsMeasured] = useState(false);
 
+  /**
+   * Keys of items shown as placeholders until their images settle
+   */
+  const [loadingKeys, setLoadingKeys] = useState<ReadonlySet<ItemKey>>(() => new Set());
+
+  /**
+   * Row spans of each item in CSS snap grid mode
+   */
+  const [snapSpans, setSnapSpans] = useState<number[]>([]);
+
   /**
    * Current scroll position
    */
@@ -162,16 +558,51 @@ function MasonrySnapGrid<T>({
    */
   const [viewportH, setViewportH] = useState(0);
 
+  /**
+   * Column configuration shared by the JS layout and the generated grid CSS.
+   * Breakpoints are compared by value so inline objects don't force re-layouts.
+   */
+  const breakpointsKey = breakpoints ? JSON.stringify(breakpoints) : '';
+  const columnConfig = useMemo<ColumnConfig>(
+      () => ({ gutter, minColWidth, columns, maxColumns, maxColWidth, breakpoints }),
+      [gutter, minColWidth, columns, maxColumns, maxColWidth, breakpointsKey]
+  );
+
+  /**
+   * Changes identity whenever anything other than `items` affects masonry
+   * positions, so an append only continues a layout with the same settings
+   */
+  const layoutSettingsKey = useMemo(
+      () => ({}),
+      [columnConfig, getItemSpan, placement, snapUnit, stamps, getAspectRatio, getItemSize, estimateItemHeight]
+  );
+
+  /**
+   * SSR / CSS masonry grid rules generated from the column configuration
+   */
+  const gridClassName = hasColumnSettings(columnConfig)
+      ? getGridClassName(columnConfig)
+      : undefined;
+  const gridCss = useMemo(
+      () => (gridClassName ? createGridCss(`.${gridClassName}`, columnConfig) : ''),
+      [gridClassName, columnConfig]
+  );
+
   /**
    * Detect client mount and CSS masonry support
    */
   useEffect(() => {
     setIsMounted(true);
 
-    if (layoutMode !== 'js') {
-      setUseCss(supportsCss('grid-template-rows', 'masonry'));
-    }
-  }, [layoutMode]);
+    // Justified rows, order-preserving placement and stamps always use JS positioning
+    setUseCss(
+        layoutMode !== 'js' &&
+        layoutType !== 'justified' &&
+        placement === 'shortest' &&
+        !hasStamps &&
+        supportsCss('grid-template-rows', 'masonry')
+    );
+  }, [layoutMode, layoutType, placement, hasStamps]);
 
   /**
    * Ensure itemRefs array length always matches items
@@ -184,85 +615,182 @@ function MasonrySnapGrid<T>({
    * Reset measurement when items change
    */
   useEffect(() => {
+    // Drop cached heights of items that are gone
+    const keys = new Set(items.map(keyOf));
+    cachedHeightsRef.current.forEach((_, key) => {
+      if (!keys.has(key)) cachedHeightsRef.current.delete(key);
+    });
+
     if (!virtualize) return;
 
+    // Appended items are measured as they render; existing heights stay valid
+    const last = lastLayoutRef.current;
+    if (last && isAppend(last.items, items)) return;
+
     isMeasuredRef.current = false;
     setIsMeasured(false);
-
-    cachedHeightsRef.current =
-        cachedHeightsRef.current.slice(0, items.length);
-  }, [items, virtualize]);
+  }, [items, virtualize, keyOf]);
 
   /**
    * Core masonry layout algorithm
    *
    * Steps:
-   * 1. Measure item heights
-   * 2. Determine column count
-   * 3. Place each item in the shortest column
-   * 4. Calculate container height
+   * 1. Measure item heights (skipped with `remeasure = false`, when the
+   *    item observer already updated the cache)
+   * 2. Run the pure layout core (columns, positions, height)
    */
-  const computeLayout = useCallback(() => {
+  const computeLayout = useCallback((remeasure = true) => {
     const container = containerRef.current;
     if (!container) return;
 
     const containerWidth = container.offsetWidth;
     if (containerWidth <= 0) return;
 
-    const cols = getColumnCount(containerWidth, minColWidth, gutter);
-    const colWidth = (containerWidth - gutter * (cols - 1)) / cols;
-
-    const colHeights = new Array<number>(cols).fill(0);
+    /**
+     * The first visible item stays in place however far this layout moves it;
+     * an anchor whose layout is not committed yet is kept
+     */
+    if (scrollAnchoring && !anchorRef.current) {
+      const { positions: laidOut, ids } = laidOutRef.current;
+      anchorRef.current = getScrollAnchor(container, resolveScroller(scrollElement), laidOut, ids);
+    }
+    const ids = items.map((item, i) => (getItemKey ? keyOf(item, i) : item));
 
     /**
-     * Measure visible item heights
+     * Justified rows: sizes come from aspect ratios, nothing to measure
      */
-    itemRefs.current.slice(0, items.length).forEach((el, i) => {
-      if (!el) return;
+    if (layoutType === 'justified') {
+      const layout = computeJustifiedLayout({
+        containerWidth,
+        gutter,
+        aspectRatios: items.map((item) => getAspectRatio?.(item) ?? 1),
+        targetRowHeight,
+        maxRowHeight,
+        lastRow,
+      });
+
+      setPositions(layout.positions);
+      setContainerHeight(layout.height);
+      laidOutRef.current = { positions: layout.positions, ids };
+      contentEndRef.current = layout.height;
+      lastLayoutRef.current = null;
+
+      if (virtualize && !isMeasuredRef.current) {
+        isMeasuredRef.current = true;
+        setIsMeasured(true);
+      }
+      return;
+    }
 
-      const h = el.offsetHeight;
-      if (h > 0) cachedHeightsRef.current[i] = h;
-    });
+    const spans = getItemSpan ? items.map((item) => getItemSpan(item)) : undefined;
 
     /**
-     * Calculate masonry positions
+     * With estimates, nothing is measured before virtualization has unmounted
+     * the items away from the viewport
      */
-    const newPositions: ItemPosition[] = items.map((_, i) => {
+    const estimating = virtualize && estimateItemHeight !== undefined;
+    const measure = remeasure && (!estimating || isMeasuredRef.current);
 
-      let minH = colHeights[0];
-      let col = 0;
-
-      // find shortest column
-      for (let c = 1; c < cols; c++) {
-        if (colHeights[c] < minH) {
-          minH = colHeights[c];
-          col = c;
-        }
-      }
+    /**
+     * Measure the items from `start` on and build the layout input for them
+     */
+    const measureFrom = (start: number) => {
+      const added = items.slice(start);
+      const addedSpans = spans?.slice(start);
+
+      /**
+       * Heights known from size hints skip DOM measurement entirely
+       */
+      const knownHeights = getKnownHeights(
+          added,
+          containerWidth,
+          { ...columnConfig, spans: addedSpans },
+          { getItemSize, getAspectRatio }
+      );
 
-      const pos: ItemPosition = {
-        x: col * (colWidth + gutter),
-        y: colHeights[col],
-        width: colWidth,
+      /**
+       * Measure visible, unhinted item heights
+       */
+      itemRefs.current.slice(start, items.length).forEach((el, k) => {
+        if (!measure || !el || knownHeights[k] !== undefined) return;
+
+        const h = el.offsetHeight;
+        if (h > 0) cachedHeightsRef.current.set(keyOf(added[k], start + k), h);
+      });
+
+      /**
+       * Unmeasured items fall back to their estimate
+       */
+      const estimated = estimating
+          ? getEstimatedHeights(
+              added,
+              containerWidth,
+              { ...columnConfig, spans: addedSpans },
+              estimateItemHeight,
+              start
+          )
+          : [];
+
+      const input: MasonryLayoutInput = {
+        ...columnConfig,
+        containerWidth,
+        heights: added.map(
+            (item, k) =>
+                knownHeights[k] ??
+                cachedHeightsRef.current.get(keyOf(item, start + k)) ??
+                estimated[k] ??
+                0
+        ),
+        spans: addedSpans,
+        placement,
+        snapUnit,
+        stamps: stamps ? getStampRects(container, resolveStamps(stamps)) : undefined,
       };
 
-      colHeights[col] += (cachedHeightsRef.current[i] ?? 0) + gutter;
+      return { knownHeights, input };
+    };
+
+    /**
+     * Items only appended: keep the existing column heights and measure and
+     * place just the new items
+     */
+    const last = lastLayoutRef.current;
+    const previous =
+        last && last.settingsKey === layoutSettingsKey && isAppend(last.items, items)
+            ? last
+            : null;
 
-      return pos;
-    });
+    let start = previous ? previous.items.length : 0;
+    let { knownHeights, input } = measureFrom(start);
+    let layout = previous ? appendMasonryLayout(previous.layout, input) : null;
 
-    const maxColHeight =
-        items.length > 0 ? Math.max(...colHeights) - gutter : 0;
+    /**
+     * Otherwise recompute every position (shared pure core)
+     */
+    if (!layout) {
+      if (start > 0) {
+        start = 0;
+        ({ knownHeights, input } = measureFrom(0));
+      }
+      layout = computeMasonryLayout(input);
+    }
+
+    lastLayoutRef.current = { items, settingsKey: layoutSettingsKey, layout };
 
-    setPositions(newPositions);
-    setContainerHeight(Math.max(0, maxColHeight));
+    setPositions(layout.positions);
+    setContainerHeight(layout.height);
+    laidOutRef.current = { positions: layout.positions, ids };
+    contentEndRef.current = getShortestColumnHeight(layout);
 
     /**
-     * Activate virtualization once all items measured
+     * Activate virtualization once all items measured (or estimated)
      */
     if (virtualize && !isMeasuredRef.current) {
-      const allCached = items.every(
-          (_, i) => (cachedHeightsRef.current[i] ?? 0) > 0
+      const allCached = estimating || items.every(
+          (_, i) =>
+              i < start ||
+              knownHeights[i - start] !== undefined ||
+              (cachedHeightsRef.current.get(keyOf(items[i], i)) ?? 0) > 0
       );
 
       if (allCached) {
@@ -271,7 +799,28 @@ function MasonrySnapGrid<T>({
       }
     }
 
-  }, [items, gutter, minColWidth, virtualize]);
+  }, [
+    items,
+    gutter,
+    columnConfig,
+    getItemSpan,
+    placement,
+    snapUnit,
+    stamps,
+    layoutType,
+    targetRowHeight,
+    maxRowHeight,
+    lastRow,
+    getAspectRatio,
+    getItemSize,
+    layoutSettingsKey,
+    keyOf,
+    virtualize,
+    estimateItemHeight,
+    getItemKey,
+    scrollAnchoring,
+    scrollElement,
+  ]);
 
   /**
    * Keep computeLayout ref updated
@@ -286,7 +835,23 @@ function MasonrySnapGrid<T>({
   useEffect(() => {
     if (!isMounted || useCss) return;
     computeLayoutRef.current();
-  }, [isMounted, useCss, items, gutter, minColWidth]);
+  }, [
+    isMounted,
+    useCss,
+    items,
+    gutter,
+    columnConfig,
+    getItemSpan,
+    placement,
+    snapUnit,
+    stamps,
+    layoutType,
+    targetRowHeight,
+    maxRowHeight,
+    lastRow,
+    getAspectRatio,
+    getItemSize,
+  ]);
 
   /**
    * Recalculate layout after measurement completes
@@ -315,7 +880,7 @@ function MasonrySnapGrid<T>({
 
       prevWidthRef.current = width;
 
-      cachedHeightsRef.current = [];
+      cachedHeightsRef.current.clear();
       isMeasuredRef.current = false;
 
       setIsMeasured(false);
@@ -329,52 +894,268 @@ function MasonrySnapGrid<T>({
 
   }, [isMounted, useCss]);
 
+  /**
+   * Item ResizeObserver (JS masonry)
+   *
+   * One observer for every wrapper. Height changes (images loading, expanding
+   * content, late fonts) update only those items' cached heights, then the
+   * grid is laid out once per frame.
+   */
+  useEffect(() => {
+    if (!isMounted || useCss || layoutType === 'justified') return;
+
+    const observer = createItemObserver((heights) => {
+      heights.forEach((height, el) => {
+        const key = trackedKeysRef.current.get(el);
+        if (key !== undefined && height > 0) cachedHeightsRef.current.set(key, height);
+      });
+      computeLayoutRef.current(false);
+    });
+    itemObserverRef.current = observer;
+
+    return () => {
+      observer?.disconnect();
+      itemObserverRef.current = null;
+    };
+
+  }, [isMounted, useCss, layoutType]);
+
+  /**
+   * Baseline snap grid in CSS mode
+   *
+   * Measures items (they are top-aligned, so their height is the content
+   * height) and derives `grid-row: span N`; re-measures on container resize.
+   */
+  useEffect(() => {
+    if (!isMounted || !useCss || !snapUnit) return;
+
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      const { gutter: rowGap } = resolveColumns(container.offsetWidth, columnConfig);
+      const next = itemRefs.current
+          .slice(0, items.length)
+          .map((el) => (el ? getSnapSpan(el.offsetHeight, snapUnit, rowGap) : 1));
+
+      setSnapSpans((prev) =>
+          prev.length === next.length && prev.every((span, i) => span === next[i])
+              ? prev
+              : next
+      );
+    };
+
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+
+    // Item height changes re-measure spans once per frame
+    const itemObserver = createItemObserver(measure);
+    itemObserver?.track(
+        itemRefs.current
+            .slice(0, items.length)
+            .filter((el): el is HTMLDivElement => el !== null)
+    );
+
+    return () => {
+      observer.disconnect();
+      itemObserver?.disconnect();
+    };
+
+  }, [isMounted, useCss, snapUnit, items, columnConfig]);
+
   /**
    * Scroll + viewport tracking
    *
-   * Used for virtualization calculations.
+   * Follows `scrollElement` (or the window). Used for virtualization calculations.
    */
   useEffect(() => {
     if (!virtualize || !isMounted || useCss) return;
 
-    const syncContainerTop = () => {
+    const scroller = resolveScroller(scrollElement);
+
+    const sync = () => {
+      const { scrollTop, viewportHeight } = getScrollState(scroller);
       if (containerRef.current) {
-        containerAbsTopRef.current =
-            containerRef.current.getBoundingClientRect().top +
-            window.scrollY;
+        containerAbsTopRef.current = getScrollOffsetTop(containerRef.current, scroller);
       }
+      setScrollY(scrollTop);
+      setViewportH(viewportHeight);
     };
 
-    const onScroll = () => {
-      setScrollY(window.scrollY);
-      syncContainerTop();
-    };
+    sync();
+    return listenToScroll(scroller, sync);
 
-    const onResize = () => {
-      setViewportH(window.innerHeight);
-      syncContainerTop();
-    };
+  }, [virtualize, isMounted, useCss, scrollElement]);
+
+  /**
+   * Scroll anchoring: once a layout is committed, scroll by however far it
+   * moved the anchored item
+   */
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    anchorRef.current = null;
+    if (anchor) {
+      restoreScrollAnchor(anchor, resolveScroller(scrollElement), positions, laidOutRef.current.ids);
+    }
+  }, [positions]);
+
+  /**
+   * Keep the end callback current without re-subscribing
+   */
+  useLayoutEffect(() => {
+    onEndReachedRef.current = onEndReached;
+  }, [onEndReached]);
+
+  /**
+   * Infinite scroll: `onEndReached` once per items length, when the end of
+   * the shortest column (the content height in CSS mode) nears the viewport
+   */
+  const checkEndReached = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || !onEndReachedRef.current) return;
+    if (endReachedLengthRef.current === items.length) return;
+    // Wait for the layout of the current items
+    if (!useCss && laidOutRef.current.ids.length !== items.length) return;
 
-    window.addEventListener('scroll', onScroll, { passive: true });
-    window.addEventListener('resize', onResize);
+    const end = useCss ? container.offsetHeight : contentEndRef.current;
+    if (!isNearEnd(container, resolveScroller(scrollElement), end, endReachedThreshold)) return;
 
-    setViewportH(window.innerHeight);
-    syncContainerTop();
-    setScrollY(window.scrollY);
+    endReachedLengthRef.current = items.length;
+    onEndReachedRef.current();
+  }, [items.length, useCss, scrollElement, endReachedThreshold]);
 
-    return () => {
-      window.removeEventListener('scroll', onScroll);
-      window.removeEventListener('resize', onResize);
+  const hasEndReached = onEndReached !== undefined;
+
+  useEffect(() => {
+    if (!hasEndReached || !isMounted) return;
+    return listenToScroll(resolveScroller(scrollElement), checkEndReached);
+  }, [hasEndReached, isMounted, scrollElement, checkEndReached]);
+
+  useEffect(() => {
+    if (isMounted) checkEndReached();
+  }, [isMounted, positions, checkEndReached]);
+
+  /**
+   * Computed positions. In CSS mode the browser places the items, so their
+   * positions are read from the rendered wrappers
+   */
+  const getPositions = useCallback((): ItemPosition[] => {
+    const container = containerRef.current;
+    if (!useCss || !container) return positions;
+    return measurePositions(
+        container,
+        itemRefs.current.slice(0, items.length),
+        resolveColumns(container.offsetWidth, columnConfig)
+    );
+  }, [items.length, positions, useCss, columnConfig]);
+
+  /**
+   * Snapshot of the current layout, for the imperative API and `onLayoutComplete`
+   */
+  const getLayout = useCallback((): LayoutSnapshot => {
+    const current = getPositions();
+    if (layoutType === 'justified') {
+      return createLayoutSnapshot(null, gutter, current, containerHeight);
+    }
+    const resolved =
+        lastLayoutRef.current?.layout ??
+        resolveColumns(containerRef.current?.offsetWidth ?? 0, columnConfig);
+    const height = useCss ? getPositionsHeight(current) : containerHeight;
+    return createLayoutSnapshot(resolved, gutter, current, height);
+  }, [getPositions, containerHeight, useCss, layoutType, gutter, columnConfig]);
+
+  /**
+   * Imperative API
+   */
+  useImperativeHandle(ref, () => ({
+    scrollToIndex(index, options) {
+      const container = containerRef.current;
+      const box = getPositions()[index];
+      if (!container || !box) return;
+      scrollToBox(container, resolveScroller(scrollElement), box.y, box.height, options);
+    },
+    getLayout,
+    getItemRect(index) {
+      const pos = getPositions()[index];
+      return pos ? { ...pos } : null;
+    },
+    getItemAtPoint(x, y) {
+      return findItemAtPoint(getPositions(), x, y);
+    },
+    getItemsInRect(rect) {
+      return findItemsInRect(getPositions(), rect);
+    },
+  }), [getPositions, getLayout, scrollElement]);
+
+  /**
+   * Keep the lifecycle callbacks current without re-running their effects
+   */
+  useLayoutEffect(() => {
+    eventsRef.current = {
+      layoutComplete: onLayoutComplete,
+      columnsChange: onColumnsChange,
+      itemsRendered: onItemsRendered,
+      itemRemoved: onItemRemoved,
+      engineChange: onEngineChange,
     };
+  }, [onLayoutComplete, onColumnsChange, onItemsRendered, onItemRemoved, onEngineChange]);
+
+  /**
+   * Report a committed layout: `onColumnsChange` when the column count
+   * changed, then `onLayoutComplete`
+   */
+  const emitLayout = useCallback(() => {
+    const { layoutComplete, columnsChange } = eventsRef.current;
+    if (!layoutComplete && !columnsChange) return;
 
-  }, [virtualize, isMounted, useCss]);
+    const layout = getLayout();
+    const previous = columnsRef.current;
+    columnsRef.current = layout.columns;
+    if (layout.columns !== previous) columnsChange?.({ columns: layout.columns, previous });
+    layoutComplete?.(layout);
+  }, [getLayout]);
+
+  /**
+   * JS layouts complete when their positions are committed; CSS layouts
+   * whenever the rendered items or the grid settings change
+   */
+  useEffect(() => {
+    if (isMounted && !useCss && positions.length === items.length) emitLayout();
+  }, [isMounted, useCss, positions]);
+
+  useEffect(() => {
+    if (isMounted && useCss) emitLayout();
+  }, [isMounted, useCss, items, columnConfig, snapSpans]);
+
+  /**
+   * Report engine switches after mount
+   */
+  const engine: LayoutEngine = useCss ? 'css' : layoutType === 'justified' ? 'justified' : 'masonry';
+
+  useEffect(() => {
+    if (!isMounted) return;
+    const previous = engineRef.current;
+    engineRef.current = engine;
+    if (previous && previous !== engine) eventsRef.current.engineChange?.({ engine, previous });
+  }, [isMounted, engine]);
 
   /**
    * Determine which items are visible when virtualization is enabled
    */
   const visibleIndices = useMemo<Set<number> | null>(() => {
 
-    if (!virtualize || !isMeasured || positions.length === 0) {
+    if (!virtualize) return null;
+
+    /**
+     * With estimates, items are only rendered once placed: the first layout,
+     * and the layout after items change, come from estimates instead of
+     * mounting every item to measure it
+     */
+    if (estimateItemHeight === undefined && (!isMeasured || positions.length === 0)) {
       return null;
     }
 
@@ -391,9 +1172,7 @@ function MasonrySnapGrid<T>({
 
     positions.forEach((pos, i) => {
 
-      const itemH = cachedHeightsRef.current[i] ?? 0;
-
-      if (pos.y + itemH >= relStart && pos.y <= relEnd) {
+      if (pos.y + pos.height >= relStart && pos.y <= relEnd) {
         visible.add(i);
       }
 
@@ -401,7 +1180,197 @@ function MasonrySnapGrid<T>({
 
     return visible;
 
-  }, [virtualize, isMeasured, positions, scrollY, viewportH, overscan]);
+  }, [virtualize, estimateItemHeight, isMeasured, positions, scrollY, viewportH, overscan]);
+
+  /**
+   * Track the rendered wrappers after every layout, with the heights the
+   * layout used
+   */
+  useEffect(() => {
+    const observer = itemObserverRef.current;
+    if (!observer) return;
+
+    const elements: HTMLElement[] = [];
+    const heights: (number | undefined)[] = [];
+    const keys = new Map<HTMLElement, ItemKey>();
+
+    itemRefs.current.slice(0, items.length).forEach((el, i) => {
+      if (!el) return;
+      const key = keyOf(items[i], i);
+      const pos = positions[i];
+      // Items mounted while scrolling may still be placed with their estimate
+      const estimated =
+          virtualize && estimateItemHeight && pos && getItemSize?.(items[i], pos.width) === undefined
+              ? estimateItemHeight(items[i], i, pos.width)
+              : undefined;
+      elements.push(el);
+      heights.push(cachedHeightsRef.current.get(key) ?? estimated);
+      keys.set(el, key);
+    });
+
+    trackedKeysRef.current = keys;
+    observer.track(elements, heights);
+  }, [positions, visibleIndices]);
+
+  /**
+   * Keep the settle callback current without restarting pending waits
+   */
+  useLayoutEffect(() => {
+    onImagesSettledRef.current = onImagesSettled;
+  }, [onImagesSettled]);
+
+  /**
+   * Wait for the images of newly rendered wrappers (waitForImages)
+   *
+   * Runs before paint so pending items appear as placeholders right away.
+   * Settling changes an item's height, which the item observer turns into
+   * a re-layout.
+   */
+  useLayoutEffect(() => {
+    if (!isMounted || !waitForImages) return;
+
+    const batch: T[] = [];
+    const elements: HTMLElement[] = [];
+    const keys = new Map<HTMLElement, ItemKey>();
+
+    itemRefs.current.slice(0, items.length).forEach((el, i) => {
+      if (!el || imageItemsRef.current.get(el) === items[i]) return;
+      imageItemsRef.current.set(el, items[i]);
+      batch.push(items[i]);
+      elements.push(el);
+      keys.set(el, keyOf(items[i], i));
+    });
+    if (elements.length === 0) return;
+
+    const pending = elements.filter((el) => getPendingImages(el).length > 0);
+    if (pending.length > 0) {
+      setLoadingKeys((prev) => new Set([...prev, ...pending.map((el) => keys.get(el)!)]));
+    }
+
+    // A batch without pending images settles (and reports) synchronously
+    let cancel: (() => void) | undefined;
+    let settled = false;
+    cancel = waitForImageLoad(
+        elements,
+        (el) =>
+            setLoadingKeys((prev) => {
+              const next = new Set(prev);
+              next.delete(keys.get(el)!);
+              return next;
+            }),
+        (failed) => {
+          settled = true;
+          if (cancel) imageWaitsRef.current.delete(cancel);
+          onImagesSettledRef.current?.({ items: batch, failed });
+        }
+    );
+    if (!settled) imageWaitsRef.current.add(cancel);
+  }, [isMounted, useCss, waitForImages, items, keyOf, visibleIndices]);
+
+  /**
+   * Measure the positioned wrappers before each commit (animations)
+   */
+  const captureBoxes = useCallback(() => {
+    const animator = animatorRef.current;
+    if (!animator) return;
+    // Wrappers without a JS position yet have nowhere to slide from
+    const placed = [...mountedItemsRef.current.keys()].filter(
+        (el) => useCss || el.style.transform !== ''
+    );
+    firstBoxesRef.current = animator.measure(placed);
+  }, [useCss]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const animator = createAnimator(container);
+    animatorRef.current = animator;
+    return () => {
+      animator.finish();
+      animatorRef.current = null;
+    };
+  }, []);
+
+  /**
+   * Report wrappers mounted and unmounted by this commit, with their items,
+   * and animate the items that were added, removed or moved
+   */
+  useLayoutEffect(() => {
+    if (!isMounted) return;
+
+    const previous = mountedItemsRef.current;
+    const wasHidden = hiddenWrappersRef.current;
+    const next = new Map<HTMLElement, T>();
+    const renderedItems: T[] = [];
+    const rendered: HTMLElement[] = [];
+    const shownAgain: HTMLElement[] = [];
+    itemRefs.current.slice(0, items.length).forEach((el, i) => {
+      if (!el) return;
+      next.set(el, items[i]);
+      if (previous.has(el)) return;
+      if (wasHidden.has(el)) {
+        shownAgain.push(el);
+        return;
+      }
+      renderedItems.push(items[i]);
+      rendered.push(el);
+    });
+    mountedItemsRef.current = next;
+
+    // Wrappers that left the shown ones but are still in the DOM were filtered out
+    const hidden = new Map<HTMLElement, T>();
+    const removed: HTMLElement[] = [];
+    [...previous, ...wasHidden].forEach(([el, item]) => {
+      if (next.has(el)) return;
+      if (el.isConnected) hidden.set(el, item);
+      else removed.push(el);
+    });
+    hiddenWrappersRef.current = hidden;
+
+    const { itemsRendered, itemRemoved } = eventsRef.current;
+    removed.forEach((el) =>
+        itemRemoved?.({ item: previous.get(el) ?? wasHidden.get(el)!, element: el })
+    );
+    if (rendered.length > 0) itemsRendered?.({ items: renderedItems, elements: rendered });
+
+    const first = firstBoxesRef.current;
+    const committed = committedItemsRef.current;
+    const animator = animatorRef.current;
+    firstBoxesRef.current = null;
+    committedItemsRef.current = new Set(items);
+    if (!animator || !first || !committed || !itemAnimations) return;
+
+    // Wrappers of virtualized items come and go without animating
+    const current = committedItemsRef.current;
+    const left = removed.filter((el) => previous.has(el) && !current.has(previous.get(el)!));
+    const entering = [
+      ...rendered.filter((_, k) => !committed.has(renderedItems[k])),
+      ...shownAgain,
+    ];
+    animator.leave(left, first, itemAnimations);
+    animator.play(first, [...next.keys()], entering, itemAnimations);
+  });
+
+  /**
+   * Stop waiting for images on unmount
+   */
+  useEffect(() => {
+    const waits = imageWaitsRef.current;
+    return () => {
+      waits.forEach((cancel) => cancel());
+      waits.clear();
+    };
+  }, []);
+
+  /**
+   * Hidden wrapper of a filtered-out item; keyed like the shown ones, so it
+   * keeps its DOM and state when the filter changes
+   */
+  const renderHidden = (item: T, k: number) => (
+      <div key={keyOf(item, items.length + k)} className="msgl-item" style={{ display: 'none' }}>
+        {renderItem(item)}
+      </div>
+  );
 
   /**
    * CSS Masonry mode
@@ -413,19 +1382,44 @@ function MasonrySnapGrid<T>({
         <div
             ref={containerRef}
             className={`msgl-container msgl-container--css${
+                snapUnit ? ' msgl-container--snap' : ''
+            }${gridClassName ? ` ${gridClassName}` : ''}${
                 className ? ` ${className}` : ''
             }`}
             style={{
-              '--msgl-gutter': `${gutter}px`,
-              '--msgl-min-col-width': `${minColWidth}px`,
+              '--msgl-snap-unit': snapUnit ? `${snapUnit}px` : undefined,
+              ...(gridClassName
+                  ? undefined
+                  : {
+                    '--msgl-gutter': `${gutter}px`,
+                    '--msgl-min-col-width': `${minColWidth}px`,
+                  }),
               ...style,
             } as React.CSSProperties}
         >
-          {items.map((item, i) => (
-              <div key={i} className="msgl-item">
-                {renderItem(item)}
-              </div>
-          ))}
+          {gridCss && <style dangerouslySetInnerHTML={{ __html: gridCss }} />}
+          {itemAnimations && <BeforeCommit onSnapshot={captureBoxes} />}
+          {[...items.map((item, i) => {
+            const span = getItemSpan ? getItemSpan(item) : 1;
+            const rowSpan = snapUnit ? snapSpans[i] : undefined;
+            return (
+                <div
+                    key={keyOf(item, i)}
+                    ref={(el) => {
+                      itemRefs.current[i] = el;
+                    }}
+                    className={`msgl-item${
+                        loadingKeys.has(keyOf(item, i)) ? ` ${LOADING_CLASS}` : ''
+                    }`}
+                    style={{
+                      gridColumn: span > 1 ? `span ${span}` : undefined,
+                      gridRow: rowSpan ? `span ${rowSpan}` : undefined,
+                    }}
+                >
+                  {renderItem(item)}
+                </div>
+            );
+          }), ...hiddenItems.map(renderHidden)]}
         </div>
     );
   }
@@ -448,7 +1442,9 @@ function MasonrySnapGrid<T>({
               isMounted
                   ? ' msgl-container--js'
                   : ' msgl-container--ssr'
-          }${className ? ` ${className}` : ''}`}
+          }${
+              layoutType === 'justified' ? ' msgl-container--justified' : ''
+          }${gridClassName ? ` ${gridClassName}` : ''}${className ? ` ${className}` : ''}`}
           style={{
             position: isMounted ? 'relative' : undefined,
             height: hasPositions
@@ -458,8 +1454,10 @@ function MasonrySnapGrid<T>({
             ...style,
           } as React.CSSProperties}
       >
+        {gridCss && <style dangerouslySetInnerHTML={{ __html: gridCss }} />}
+        {itemAnimations && <BeforeCommit onSnapshot={captureBoxes} />}
 
-        {items.map((item, i) => {
+        {[...items.map((item, i) => {
 
           const pos = positions[i];
           const isPositioned =
@@ -470,7 +1468,7 @@ function MasonrySnapGrid<T>({
            */
           if (
               visibleIndices !== null &&
-              positions.length === items.length &&
+              (positions.length === items.length || estimateItemHeight !== undefined) &&
               !visibleIndices.has(i)
           ) {
             return null;
@@ -478,22 +1476,27 @@ function MasonrySnapGrid<T>({
 
           return (
               <div
-                  key={i}
+                  key={keyOf(item, i)}
                   ref={(el) => {
                     if (itemRefs.current[i] !== el) {
                       itemRefs.current[i] = el;
                     }
                   }}
                   className={`msgl-item${
-                      animate && isPositioned
+                      animate && !itemAnimations && isPositioned
                           ? ' msgl-item--animated'
                           : ''
+                  }${
+                      loadingKeys.has(keyOf(item, i)) ? ` ${LOADING_CLASS}` : ''
                   }`}
                   style={
                     isPositioned
                         ? {
                           position: 'absolute',
                           width: `${pos.width}px`,
+                          height: layoutType === 'justified'
+                              ? `${pos.height}px`
+                              : undefined,
                           transform: `translate(${pos.x}px, ${pos.y}px)`,
                         }
                         : undefined
@@ -503,9 +1506,14 @@ function MasonrySnapGrid<T>({
               </div>
           );
 
-        })}
+        }), ...hiddenItems.map(renderHidden)]}
       </div>
   );
 }
 
-export default MasonrySnapGrid;
\ No newline at end of file
+/**
+ * `forwardRef` drops the type parameter; restore it for callers
+ */
+export default forwardRef(MasonrySnapGrid) as <T>(
+    props: MasonrySnapGridProps<T> & React.RefAttributes<MasonrySnapGridHandle>
+) => React.ReactElement | null;
\ No newline at end of file
@@ -1,2 +1,2 @@
 export { default } from './MasonrySnapGrid';
-export type { MasonrySnapGridProps } from './MasonrySnapGrid';
+export type { MasonrySnapGridHandle, MasonrySnapGridProps } from './MasonrySnapGrid';
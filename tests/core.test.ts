@@ -1,8 +1,30 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { getColumnCount, supportsCss } from '../src/core/utils';
+import {
+  appendMasonryLayout,
+  computeJustifiedLayout,
+  computeMasonryLayout,
+  getKnownHeights,
+  resolveColumns,
+} from '../src/core/computeLayout';
 import { applyMasonryLayout, removeMasonryLayout } from '../src/core/layoutEngine';
-import { applyCssMasonry, removeCssMasonry } from '../src/core/cssEngine';
+import {
+  applyCssMasonry,
+  applyCssSnapGrid,
+  applyCssSpans,
+  createGridCss,
+  getGridClassName,
+  removeCssMasonry,
+  removeCssSnapGrid,
+  removeCssSpans,
+} from '../src/core/cssEngine';
+import { reconcileElements } from '../src/core/reconcile';
+import { createItemObserver } from '../src/core/itemObserver';
+import { waitForImageLoad } from '../src/core/imageLoader';
+import { createEmitter } from '../src/core/emitter';
+import { findItemAtPoint, findItemsInRect } from '../src/core/layoutQuery';
 import MasonrySnapGridLayout from '../src/core/MasonrySnapGridLayout';
+import type { MasonryOptions } from '../src/core/types';
 
 // ── Utility functions ────────────────────────────────────────────────────────
 
@@ -48,6 +70,311 @@ describe('supportsCss', () => {
   });
 });
 
+// ── Pure layout core ─────────────────────────────────────────────────────────
+
+describe('resolveColumns', () => {
+  const base = { gutter: 16, minColWidth: 250 };
+  const breakpoints = { 0: { cols: 1, gutter: 8 }, 640: { cols: 2 }, 1024: { cols: 4, gutter: 24 } };
+
+  it('returns column count and width that fill the container', () => {
+    // 800px, minColWidth 250, gutter 16 → 3 cols of (800 - 32) / 3 = 256px
+    expect(resolveColumns(800, base)).toEqual({ columns: 3, columnWidth: 256, gutter: 16 });
+  });
+
+  it('never returns a negative column width', () => {
+    expect(resolveColumns(0, base).columnWidth).toBe(0);
+  });
+
+  it('uses a fixed column count', () => {
+    expect(resolveColumns(800, { ...base, columns: 2 }).columns).toBe(2);
+  });
+
+  it('cascades breakpoints from the smallest matching width', () => {
+    expect(resolveColumns(400, { ...base, breakpoints })).toMatchObject({ columns: 1, gutter: 8 });
+    // 640 inherits gutter 8 from the 0 breakpoint
+    expect(resolveColumns(800, { ...base, breakpoints })).toMatchObject({ columns: 2, gutter: 8 });
+    expect(resolveColumns(1200, { ...base, breakpoints })).toEqual({
+      columns: 4,
+      columnWidth: (1200 - 24 * 3) / 4,
+      gutter: 24,
+    });
+  });
+
+  it('derives columns from a breakpoint minColWidth, dropping an inherited cols', () => {
+    const config = { ...base, breakpoints: { 0: { cols: 1 }, 700: { minColWidth: 200 } } };
+    // (800 + 16) / (200 + 16) ≈ 3.8 → 3
+    expect(resolveColumns(800, config).columns).toBe(3);
+  });
+
+  it('adds columns when maxColWidth is exceeded', () => {
+    // minColWidth alone gives 3 cols of 256px; 200px max → ceil(816 / 216) = 4 cols
+    expect(resolveColumns(800, { ...base, maxColWidth: 200 }).columns).toBe(4);
+  });
+
+  it('caps the column count with maxColumns', () => {
+    expect(resolveColumns(1200, { ...base, maxColumns: 2 }).columns).toBe(2);
+    expect(resolveColumns(1200, { ...base, columns: 6, maxColumns: 5 }).columns).toBe(5);
+  });
+});
+
+describe('computeMasonryLayout', () => {
+  const base = { containerWidth: 800, gutter: 16, minColWidth: 250 };
+
+  it('places each item in the shortest column', () => {
+    const layout = computeMasonryLayout({ ...base, heights: [100, 200, 50, 80] });
+    expect(layout.positions.map((p) => p.column)).toEqual([0, 1, 2, 2]);
+    expect(layout.positions[3]).toEqual({ x: 544, y: 66, width: 256, height: 80, column: 2 });
+  });
+
+  it('breaks ties in favour of the leftmost column', () => {
+    const layout = computeMasonryLayout({ ...base, heights: [100, 100, 100, 100] });
+    expect(layout.positions[3].column).toBe(0);
+    expect(layout.positions[3].y).toBe(116);
+  });
+
+  it('returns column heights including the trailing gutter', () => {
+    const layout = computeMasonryLayout({ ...base, heights: [100, 200] });
+    expect(layout.columnHeights).toEqual([116, 216, 0]);
+  });
+
+  it('returns the total height without the trailing gutter', () => {
+    const layout = computeMasonryLayout({ ...base, heights: [100, 200, 50, 80] });
+    expect(layout.height).toBe(200);
+  });
+
+  it('resolves columns and gutter from breakpoints', () => {
+    const layout = computeMasonryLayout({
+      ...base,
+      breakpoints: { 0: { cols: 2, gutter: 20 } },
+      heights: [100, 100, 100],
+    });
+    expect(layout.columns).toBe(2);
+    expect(layout.gutter).toBe(20);
+    expect(layout.positions[1].x).toBe(410);
+    expect(layout.positions[2].y).toBe(120);
+  });
+
+  it('returns zero height for an empty grid', () => {
+    const layout = computeMasonryLayout({ ...base, heights: [] });
+    expect(layout.positions).toEqual([]);
+    expect(layout.height).toBe(0);
+  });
+
+  it('places spanning items at the lowest point across the columns they cover', () => {
+    // cols: [100, 300, 50] → a 2-col item fits best over cols 0-1 (top 300) vs 1-2 (top 300);
+    // leftmost wins, then the 1-col item goes to col 2 (50).
+    const layout = computeMasonryLayout({
+      ...base,
+      heights: [100, 300, 50, 120, 60],
+      spans: [1, 1, 1, 2, 1],
+    });
+    const wide = layout.positions[3];
+    expect(wide.column).toBe(0);
+    expect(wide.y).toBe(316);
+    expect(wide.width).toBe(256 * 2 + 16);
+    expect(layout.positions[4].column).toBe(2);
+    expect(layout.columnHeights).toEqual([452, 452, 142]);
+  });
+
+  it('prefers the adjacent column pair with the lowest top', () => {
+    const layout = computeMasonryLayout({
+      ...base,
+      heights: [300, 100, 100, 50],
+      spans: [1, 1, 1, 2],
+    });
+    expect(layout.positions[3].column).toBe(1);
+    expect(layout.positions[3].y).toBe(116);
+  });
+
+  it('keeps reading order with sequential placement', () => {
+    const heights = [300, 100, 100, 100];
+    expect(computeMasonryLayout({ ...base, heights }).positions[3].column).toBe(1);
+    const layout = computeMasonryLayout({ ...base, heights, placement: 'sequential' });
+    expect(layout.positions.map((p) => p.column)).toEqual([0, 1, 2, 0]);
+    expect(layout.positions[3].y).toBe(316);
+  });
+
+  it('wraps spanning items to the next row with sequential placement', () => {
+    const layout = computeMasonryLayout({
+      ...base,
+      heights: [100, 100, 100],
+      spans: [1, 1, 2],
+      placement: 'sequential',
+    });
+    expect(layout.positions[2].column).toBe(0);
+    expect(layout.positions[2].y).toBe(116);
+  });
+
+  it('keeps rows in order with balanced placement unless reordering evens out the columns', () => {
+    const layout = computeMasonryLayout({
+      ...base,
+      heights: [100, 300, 200, 50, 60, 70],
+      placement: 'balanced',
+    });
+    // Equal columns: the first row stays in reading order
+    expect(layout.positions.slice(0, 3).map((p) => p.column)).toEqual([0, 1, 2]);
+    // Uneven columns: the second row goes tallest-first onto the shortest columns
+    expect(layout.positions.slice(3).map((p) => p.column)).toEqual([1, 2, 0]);
+    // Every item of the second row sits below every item of the first row in its column
+    expect(layout.positions.slice(3).map((p) => p.y)).toEqual([316, 216, 116]);
+    expect(layout.columnHeights).toEqual([202, 382, 292]);
+  });
+
+  it('clamps spans to the available column count', () => {
+    const layout = computeMasonryLayout({ ...base, heights: [100], spans: [5] });
+    expect(layout.positions[0].width).toBe(800);
+    expect(layout.columnHeights).toEqual([116, 116, 116]);
+  });
+
+  it('starts columns overlapped by a stamp below it', () => {
+    // Stamp pinned over the right-hand column (x 544–800)
+    const stamps = [{ x: 528, y: 0, width: 272, height: 300 }];
+    const layout = computeMasonryLayout({ ...base, heights: [100, 100, 100], stamps });
+    expect(layout.positions.map((p) => p.column)).toEqual([0, 1, 0]);
+    expect(layout.positions[2].y).toBe(116);
+    // The stamp is the lowest point, so it sets the container height
+    expect(layout.height).toBe(300);
+  });
+
+  it('rounds slots up to whole snapUnit rows', () => {
+    const layout = computeMasonryLayout({ ...base, heights: [100, 50, 110, 10], snapUnit: 50 });
+    // Rows are 50px + 16px gutter: 100 → 2 rows (116px), 50 → 1 row, 110 → 2 rows
+    expect(layout.positions.map((p) => p.height)).toEqual([116, 50, 116, 50]);
+    expect(layout.positions[3]).toMatchObject({ column: 1, y: 66 });
+    expect(layout.columnHeights).toEqual([132, 132, 132]);
+  });
+});
+
+describe('appendMasonryLayout', () => {
+  const base = { containerWidth: 800, gutter: 16, minColWidth: 250 };
+  const heights = [100, 200, 50, 80, 120];
+  const spans = [1, 2, 1, 1, 3];
+
+  it('matches a full layout with shortest-column placement', () => {
+    const previous = computeMasonryLayout({ ...base, heights: heights.slice(0, 3), spans });
+    const appended = appendMasonryLayout(previous, {
+      ...base,
+      heights: heights.slice(3),
+      spans: spans.slice(3),
+    });
+    expect(appended).toEqual(computeMasonryLayout({ ...base, heights, spans }));
+  });
+
+  it('resumes sequential placement after the last item', () => {
+    const input = { ...base, placement: 'sequential' as const };
+    const previous = computeMasonryLayout({ ...input, heights: heights.slice(0, 2), spans });
+    const appended = appendMasonryLayout(previous, {
+      ...input,
+      heights: heights.slice(2),
+      spans: spans.slice(2),
+    });
+    expect(appended).toEqual(computeMasonryLayout({ ...input, heights, spans }));
+  });
+
+  it('returns null when the columns changed or placement is balanced', () => {
+    const previous = computeMasonryLayout({ ...base, heights });
+    expect(appendMasonryLayout(previous, { ...base, containerWidth: 500, heights: [10] })).toBeNull();
+    expect(appendMasonryLayout(previous, { ...base, placement: 'balanced', heights: [10] })).toBeNull();
+  });
+});
+
+describe('getKnownHeights', () => {
+  const config = { gutter: 16, minColWidth: 250 };
+  type Photo = { w?: number; h?: number; size?: number };
+
+  it('returns an empty array when there are no hints', () => {
+    expect(getKnownHeights([{}, {}], 800, config, {})).toEqual([]);
+  });
+
+  it('derives heights from aspect ratios at the item width', () => {
+    const items: Photo[] = [{ w: 2, h: 1 }, {}];
+    const heights = getKnownHeights(items, 800, config, {
+      getAspectRatio: (p) => (p.w && p.h ? p.w / p.h : undefined),
+    });
+    expect(heights).toEqual([128, undefined]);
+  });
+
+  it('prefers getItemSize and passes the span width', () => {
+    const widths: number[] = [];
+    const heights = getKnownHeights<Photo>([{ size: 90 }, {}], 800, { ...config, spans: [2] }, {
+      getItemSize: (p, width) => {
+        widths.push(width);
+        return p.size;
+      },
+      getAspectRatio: () => 1,
+    });
+    expect(widths).toEqual([528, 256]);
+    expect(heights).toEqual([90, 256]);
+  });
+});
+
+describe('computeJustifiedLayout', () => {
+  // 1010px wide, 10px gutter, square items: three items fill a row at
+  // (1010 - 20) / 3 = 330px, which is the first height at or below the 400px target.
+  const base = { containerWidth: 1010, gutter: 10, targetRowHeight: 400 };
+
+  it('fills full rows to the container width while keeping aspect ratios', () => {
+    const layout = computeJustifiedLayout({ ...base, aspectRatios: [1, 1, 1, 1] });
+    expect(layout.positions.slice(0, 3).map((p) => p.x)).toEqual([0, 340, 680]);
+    layout.positions.slice(0, 3).forEach((p) => {
+      expect(p.y).toBe(0);
+      expect(p.width).toBe(330);
+      expect(p.height).toBe(330);
+    });
+  });
+
+  it('left-aligns the last incomplete row at the target height by default', () => {
+    const layout = computeJustifiedLayout({ ...base, aspectRatios: [1, 1, 1, 1] });
+    expect(layout.positions[3]).toEqual({ x: 0, y: 340, width: 400, height: 400, column: 0 });
+    expect(layout.rowHeights).toEqual([330, 400]);
+    expect(layout.height).toBe(740);
+  });
+
+  it('justifies the last row when asked, bounded by maxRowHeight', () => {
+    const layout = computeJustifiedLayout({
+      ...base,
+      aspectRatios: [1, 1, 1, 2],
+      lastRow: 'justify',
+      maxRowHeight: 450,
+    });
+    expect(layout.positions[3].height).toBe(450);
+    expect(layout.positions[3].width).toBe(900);
+  });
+
+  it('treats invalid aspect ratios as square', () => {
+    const layout = computeJustifiedLayout({ ...base, aspectRatios: [0, NaN] });
+    expect(layout.positions[0].width).toBe(layout.positions[0].height);
+  });
+
+  it('returns zero height when there are no items', () => {
+    expect(computeJustifiedLayout({ ...base, aspectRatios: [] }).height).toBe(0);
+  });
+});
+
+describe('findItemAtPoint / findItemsInRect', () => {
+  // Two 100px columns with a 16px gutter; item 2 sits below item 0
+  const positions = [
+    { x: 0, y: 0, width: 100, height: 50, column: 0 },
+    { x: 116, y: 0, width: 100, height: 80, column: 1 },
+    { x: 0, y: 66, width: 100, height: 50, column: 0 },
+  ];
+
+  it('finds the item containing a point, or -1 in a gap', () => {
+    expect(findItemAtPoint(positions, 150, 70)).toBe(1);
+    expect(findItemAtPoint(positions, 10, 66)).toBe(2);
+    expect(findItemAtPoint(positions, 108, 10)).toBe(-1);
+    expect(findItemAtPoint(positions, 10, 58)).toBe(-1);
+  });
+
+  it('lists the items overlapping a rectangle in item order', () => {
+    expect(findItemsInRect(positions, { x: 50, y: 40, width: 100, height: 40 })).toEqual([
+      0, 1, 2,
+    ]);
+    // Touching an edge is not overlapping
+    expect(findItemsInRect(positions, { x: 100, y: 0, width: 16, height: 200 })).toEqual([]);
+  });
+});
+
 // ── JS Layout engine ─────────────────────────────────────────────────────────
 
 describe('applyMasonryLayout', () => {
@@ -104,6 +431,17 @@ describe('applyMasonryLayout', () => {
     });
   });
 
+  it('does not measure items with a known height', () => {
+    const spy = vi.spyOn(HTMLElement.prototype, 'offsetHeight', 'get');
+    applyMasonryLayout(container, items, 250, 16, false, 400, {
+      knownHeights: [50, undefined, 70],
+    });
+    expect(spy).toHaveBeenCalledTimes(1);
+    // 50, 200 (measured default), 70 → tallest column 200
+    expect(container.style.height).toBe('200px');
+    spy.mockRestore();
+  });
+
   it('handles empty items array', () => {
     applyMasonryLayout(container, [], 250, 16, false, 400);
     expect(container.style.height).toBe('0px');
@@ -140,6 +478,277 @@ describe('applyCssMasonry', () => {
   });
 });
 
+describe('createGridCss', () => {
+  it('emits a base rule and one media query per breakpoint', () => {
+    const css = createGridCss('.grid', {
+      gutter: 16,
+      minColWidth: 250,
+      breakpoints: { 0: { cols: 1, gutter: 8 }, 640: { cols: 2 } },
+    });
+    expect(css).toBe(
+      '.grid{--msgl-grid-columns:repeat(1, minmax(0, 1fr));--msgl-gutter:8px}\n' +
+        '@media (min-width:640px){.grid{--msgl-grid-columns:repeat(2, minmax(0, 1fr));--msgl-gutter:8px}}'
+    );
+  });
+
+  it('bounds auto-fill columns with maxColumns', () => {
+    const css = createGridCss('.grid', { gutter: 16, minColWidth: 250, maxColumns: 3 });
+    expect(css).toContain('minmax(max(250px, (100% - 2 * 16px) / 3), 1fr)');
+  });
+});
+
+describe('getGridClassName', () => {
+  it('ignores the key order of the config and its breakpoints', () => {
+    const name = getGridClassName({
+      gutter: 16,
+      minColWidth: 250,
+      breakpoints: { 1024.5: { cols: 4, gutter: 24 }, 640: { cols: 2 } },
+    });
+    expect(
+      getGridClassName({
+        breakpoints: { 640: { cols: 2 }, 1024.5: { gutter: 24, cols: 4 } },
+        minColWidth: 250,
+        gutter: 16,
+      })
+    ).toBe(name);
+    expect(getGridClassName({ gutter: 16, minColWidth: 250, columns: 3 })).not.toBe(name);
+  });
+});
+
+describe('applyCssSpans', () => {
+  it('sets grid-column span on spanning items only', () => {
+    const items = [document.createElement('div'), document.createElement('div')];
+    applyCssSpans(items, [1, 2]);
+    expect(items[0].style.gridColumn).toBe('');
+    expect(items[1].style.gridColumn).toBe('span 2');
+  });
+
+  it('clamps spans to the given column count', () => {
+    const item = document.createElement('div');
+    applyCssSpans([item], [4], 2);
+    expect(item.style.gridColumn).toBe('span 2');
+  });
+
+  it('is undone by removeCssSpans', () => {
+    const item = document.createElement('div');
+    applyCssSpans([item], [3]);
+    removeCssSpans([item]);
+    expect(item.style.gridColumn).toBe('');
+  });
+});
+
+describe('applyCssSnapGrid', () => {
+  it('spans each item over the baseline rows its height needs', () => {
+    const container = document.createElement('div');
+    const items = [document.createElement('div'), document.createElement('div')];
+    items[0].style.height = '100px';
+    items[1].style.height = '40px';
+    applyCssSnapGrid(container, items, 50, 16);
+    expect(container.style.gridAutoRows).toBe('50px');
+    expect(items[0].style.gridRow).toBe('span 2');
+    expect(items[1].style.gridRow).toBe('span 1');
+  });
+
+  it('is undone by removeCssSnapGrid', () => {
+    const container = document.createElement('div');
+    const item = document.createElement('div');
+    applyCssSnapGrid(container, [item], 50, 16);
+    removeCssSnapGrid(container, [item]);
+    expect(container.style.gridAutoRows).toBe('');
+    expect(item.style.gridRow).toBe('');
+  });
+});
+
+describe('reconcileElements', () => {
+  const setup = (ids: string[]) => {
+    const container = document.createElement('div');
+    const elements = ids.map((id) => {
+      const el = document.createElement('div');
+      el.id = id;
+      container.appendChild(el);
+      return el;
+    });
+    return { container, elements };
+  };
+  const order = (container: HTMLElement) => Array.from(container.children).map((el) => el.id);
+
+  it('moves only the elements that left their relative order', () => {
+    const { container, elements } = setup(['a', 'b', 'c', 'd']);
+    const [a, b, c, d] = elements;
+    const spy = vi.spyOn(container, 'insertBefore');
+    reconcileElements(container, elements, [b, c, d, a]);
+    expect(order(container)).toEqual(['b', 'c', 'd', 'a']);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it('inserts new elements and removes dropped ones', () => {
+    const { container, elements } = setup(['a', 'b', 'c']);
+    const [a, , c] = elements;
+    const x = document.createElement('div');
+    x.id = 'x';
+    reconcileElements(container, elements, [x, c, a]);
+    expect(order(container)).toEqual(['x', 'c', 'a']);
+  });
+
+  it('leaves other children of the container in place', () => {
+    const { container, elements } = setup(['stamp', 'a', 'b']);
+    const [, a, b] = elements;
+    reconcileElements(container, [a, b], [b, a]);
+    expect(order(container)).toEqual(['stamp', 'b', 'a']);
+  });
+});
+
+describe('createItemObserver', () => {
+  const OriginalResizeObserver = globalThis.ResizeObserver;
+  let notify: (targets: Element[]) => void;
+
+  const nextFrame = () => new Promise((resolve) => requestAnimationFrame(resolve));
+  const sized = (height: number) => {
+    const el = document.createElement('div');
+    el.style.height = `${height}px`;
+    return el;
+  };
+
+  beforeEach(() => {
+    globalThis.ResizeObserver = class {
+      constructor(callback: ResizeObserverCallback) {
+        notify = (targets) =>
+          callback(
+            targets.map((target) => ({ target })) as unknown as ResizeObserverEntry[],
+            this as unknown as ResizeObserver
+          );
+      }
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    } as unknown as typeof ResizeObserver;
+  });
+
+  afterEach(() => {
+    globalThis.ResizeObserver = OriginalResizeObserver;
+  });
+
+  it('reports changed heights once per frame', async () => {
+    const onResize = vi.fn();
+    const observer = createItemObserver(onResize)!;
+    const [a, b, c] = [sized(100), sized(100), sized(100)];
+    observer.track([a, b, c]);
+
+    a.style.height = '150px';
+    notify([a, b]);
+    c.style.height = '120px';
+    notify([c]);
+    expect(onResize).not.toHaveBeenCalled();
+
+    await nextFrame();
+    expect(onResize).toHaveBeenCalledOnce();
+    expect(onResize.mock.calls[0][0]).toEqual(new Map([[a, 150], [c, 120]]));
+  });
+
+  it('reports elements that differ from the height they were laid out with', async () => {
+    const onResize = vi.fn();
+    const observer = createItemObserver(onResize)!;
+    const a = sized(180);
+    observer.track([a], [100]);
+
+    await nextFrame();
+    expect(onResize.mock.calls[0][0]).toEqual(new Map([[a, 180]]));
+  });
+});
+
+describe('waitForImageLoad', () => {
+  const withImage = () => {
+    const el = document.createElement('div');
+    const img = document.createElement('img');
+    img.src = 'photo.jpg';
+    el.appendChild(img);
+    return { el, img };
+  };
+
+  it('settles each item once its images load or fail', () => {
+    const a = withImage();
+    const b = withImage();
+    const onItemSettled = vi.fn();
+    const onSettled = vi.fn();
+    waitForImageLoad([a.el, b.el], onItemSettled, onSettled);
+
+    a.img.dispatchEvent(new Event('load'));
+    expect(onItemSettled).toHaveBeenCalledWith(a.el);
+    expect(onSettled).not.toHaveBeenCalled();
+
+    b.img.dispatchEvent(new Event('error'));
+    expect(onItemSettled).toHaveBeenCalledWith(b.el);
+    expect(onSettled).toHaveBeenCalledWith([b.img]);
+  });
+
+  it('settles immediately when nothing is pending', () => {
+    const onItemSettled = vi.fn();
+    const onSettled = vi.fn();
+    waitForImageLoad([document.createElement('div')], onItemSettled, onSettled);
+    expect(onItemSettled).not.toHaveBeenCalled();
+    expect(onSettled).toHaveBeenCalledWith([]);
+  });
+
+  it('stops waiting when cancelled', () => {
+    const { el, img } = withImage();
+    const onSettled = vi.fn();
+    const cancel = waitForImageLoad([el], vi.fn(), onSettled);
+    cancel();
+    img.dispatchEvent(new Event('load'));
+    expect(onSettled).not.toHaveBeenCalled();
+  });
+});
+
+describe('createEmitter', () => {
+  it('calls listeners in order until they are removed', () => {
+    const emitter = createEmitter<{ change: number }>();
+    const calls: string[] = [];
+    const first = (n: number) => calls.push(`first ${n}`);
+    const stop = emitter.on('change', first);
+    emitter.once('change', (n) => calls.push(`once ${n}`));
+
+    emitter.emit('change', 1);
+    emitter.emit('change', 2);
+    stop();
+    emitter.emit('change', 3);
+    expect(calls).toEqual(['first 1', 'once 1', 'first 2']);
+    expect(emitter.has('change')).toBe(false);
+  });
+
+  it('removes on and once registrations of the same listener separately', () => {
+    const emitter = createEmitter<{ change: number }>();
+    const listener = vi.fn();
+    emitter.on('change', listener);
+    const stopOnce = emitter.once('change', listener);
+    stopOnce();
+    emitter.emit('change', 1);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    emitter.once('change', listener);
+    emitter.off('change', listener);
+    emitter.emit('change', 2);
+    emitter.emit('change', 3);
+    expect(listener.mock.calls).toEqual([[1], [2]]);
+    expect(emitter.has('change')).toBe(false);
+  });
+
+  it('removes one of duplicate registrations at a time', () => {
+    const emitter = createEmitter<{ change: number }>();
+    const listener = vi.fn();
+    const stop = emitter.on('change', listener);
+    emitter.on('change', listener);
+    emitter.on('change', listener);
+    stop();
+    stop();
+    emitter.emit('change', 1);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    emitter.off('change', listener);
+    emitter.emit('change', 2);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
+
 describe('removeCssMasonry', () => {
   it('clears grid styles from container', () => {
     const container = document.createElement('div');
@@ -211,7 +820,8 @@ describe('MasonrySnapGridLayout', () => {
       layoutMode: 'js',
     });
     masonry.destroy();
-    expect(disconnectSpy).toHaveBeenCalledOnce();
+    // Container observer and shared item observer
+    expect(disconnectSpy).toHaveBeenCalledTimes(2);
 
     globalThis.ResizeObserver = OriginalResizeObserver;
   });
@@ -241,6 +851,726 @@ describe('MasonrySnapGridLayout', () => {
     CSS.supports = originalSupports;
   });
 
+  it('widens spanning items in JS mode', () => {
+    new MasonrySnapGridLayout(container, {
+      items,
+      renderItem: makeItem,
+      layoutMode: 'js',
+      getItemSpan: (item) => (item === 'Alpha' ? 2 : 1),
+    });
+    const [alpha, beta] = Array.from(container.children) as HTMLElement[];
+    // 800px container → 3 cols of 256px; span 2 = 256 * 2 + 16
+    expect(alpha.style.width).toBe('528px');
+    expect(beta.style.width).toBe('256px');
+  });
+
+  it('positions items from aspect ratio hints without measuring them', () => {
+    new MasonrySnapGridLayout(container, {
+      items,
+      renderItem: makeItem,
+      layoutMode: 'js',
+      getAspectRatio: () => 2,
+    });
+    // 256px columns at a 2:1 ratio → 128px tall items in one row
+    expect(container.style.height).toBe('128px');
+  });
+
+  it('resolves breakpoints against the container width in CSS mode', () => {
+    const originalSupports = CSS.supports;
+    CSS.supports = vi.fn().mockReturnValue(true);
+
+    new MasonrySnapGridLayout(container, {
+      items,
+      renderItem: makeItem,
+      breakpoints: { 0: { cols: 1, gutter: 8 }, 640: { cols: 2 } },
+    });
+    // 800px container → 640 breakpoint applies
+    expect(container.style.gridTemplateColumns).toBe('repeat(2, minmax(0, 1fr))');
+    expect(container.style.gap).toBe('8px');
+
+    CSS.supports = originalSupports;
+  });
+
+  it('snaps item slots to snapUnit rows in JS mode', () => {
+    new MasonrySnapGridLayout(container, {
+      items,
+      renderItem: makeItem,
+      layoutMode: 'js',
+      snapUnit: 50,
+    });
+    // 200px items need 4 rows of 50px + 16px gutter → 4 * 66 - 16
+    expect(container.style.height).toBe('248px');
+  });
+
+  it('flows items around stamp rectangles', () => {
+    new MasonrySnapGridLayout(container, {
+      items,
+      renderItem: makeItem,
+      layoutMode: 'js',
+      stamps: [{ x: 0, y: 0, width: 256, height: 100 }],
+    });
+    const [alpha, , gamma] = Array.from(container.children) as HTMLElement[];
+    expect(alpha.style.transform).toBe('translate(272px, 0px)');
+    expect(gamma.style.transform).toBe('translate(0px, 116px)');
+  });
+
+  it('reuses elements by key on updateItems()', () => {
+    const renderItem = vi.fn(makeItem);
+    const masonry = new MasonrySnapGridLayout(container, {
+      items,
+      renderItem,
+      layoutMode: 'js',
+      getKey: (item) => item,
+    });
+    const [alpha, , gamma] = Array.from(container.children);
+
+    masonry.updateItems(['Gamma', 'Delta', 'Alpha']);
+    const children = Array.from(container.children) as HTMLElement[];
+    expect(children.map((el) => el.textContent)).toEqual(['Gamma', 'Delta', 'Alpha']);
+    expect(children[0]).toBe(gamma);
+    expect(children[2]).toBe(alpha);
+    // Only 'Delta' is new
+    expect(renderItem).toHaveBeenCalledTimes(4);
+    expect(alpha.style.transform).toBe('translate(544px, 0px)');
+  });
+
+  it('places appended items without re-rendering or re-measuring existing ones', () => {
+    const renderItem = vi.fn(makeItem);
+    const masonry = new MasonrySnapGridLayout(container, { items, renderItem, layoutMode: 'js' });
+    const [alpha] = Array.from(container.children);
+
+    const spy = vi.spyOn(HTMLElement.prototype, 'offsetHeight', 'get');
+    masonry.appendItems(['Delta']);
+    expect(spy).toHaveBeenCalledTimes(1);
+    spy.mockRestore();
+
+    expect(renderItem).toHaveBeenCalledTimes(4);
+    expect(container.firstElementChild).toBe(alpha);
+    const delta = container.lastElementChild as HTMLElement;
+    expect(delta.style.transform).toBe('translate(0px, 216px)');
+    expect(container.style.height).toBe('416px');
+  });
+
+  it('re-lays out a resized item without re-measuring the others', async () => {
+    const OriginalResizeObserver = globalThis.ResizeObserver;
+    const callbacks: ResizeObserverCallback[] = [];
+    globalThis.ResizeObserver = class {
+      constructor(callback: ResizeObserverCallback) {
+        callbacks.push(callback);
+      }
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    } as unknown as typeof ResizeObserver;
+
+    const masonry = new MasonrySnapGridLayout(container, { items, renderItem: makeItem, layoutMode: 'js' });
+    const beta = container.children[1] as HTMLElement;
+    const spy = vi.spyOn(HTMLElement.prototype, 'offsetHeight', 'get');
+    beta.style.height = '300px';
+    // The item observer is created after the container observer
+    const notifyItems = callbacks[callbacks.length - 1];
+    notifyItems([{ target: beta }] as unknown as ResizeObserverEntry[], {} as ResizeObserver);
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+
+    expect(spy.mock.instances.length).toBeGreaterThan(0);
+    expect(spy.mock.instances.every((el) => el === beta)).toBe(true);
+    expect(container.style.height).toBe('300px');
+    spy.mockRestore();
+    masonry.destroy();
+    globalThis.ResizeObserver = OriginalResizeObserver;
+  });
+
+  describe('setOptions()', () => {
+    it('applies options in place without re-rendering items', () => {
+      const renderItem = vi.fn(makeItem);
+      const masonry = new MasonrySnapGridLayout(container, { items, renderItem, layoutMode: 'js' });
+      masonry.setOptions({ gutter: 0, minColWidth: 400 });
+      // 800px container → 2 columns of 400px
+      const gamma = container.children[2] as HTMLElement;
+      expect(gamma.style.transform).toBe('translate(0px, 200px)');
+      expect(renderItem).toHaveBeenCalledTimes(3);
+    });
+
+    it('cleans up the previous engine when switching between CSS and JS', () => {
+      const originalSupports = CSS.supports;
+      CSS.supports = vi.fn().mockReturnValue(true);
+
+      const masonry = new MasonrySnapGridLayout(container, { items, renderItem: makeItem });
+      expect(container.style.display).toBe('grid');
+
+      masonry.setOptions({ layoutMode: 'js' });
+      expect(container.style.display).toBe('');
+      expect(container.style.gridTemplateRows).toBe('');
+      expect(container.style.position).toBe('relative');
+
+      masonry.setOptions({ layoutMode: 'auto' });
+      expect(container.style.position).toBe('');
+      const alpha = container.firstElementChild as HTMLElement;
+      expect(alpha.style.transform).toBe('');
+
+      CSS.supports = originalSupports;
+    });
+
+    it('falls back to defaults for undefined options', () => {
+      const masonry = new MasonrySnapGridLayout(container, {
+        items,
+        renderItem: makeItem,
+        layoutMode: 'js',
+        gutter: 0,
+      });
+      masonry.setOptions({ gutter: undefined });
+      const beta = container.children[1] as HTMLElement;
+      expect(beta.style.transform).toBe('translate(272px, 0px)');
+    });
+  });
+
+  describe('mutation methods', () => {
+    const texts = () => Array.from(container.children).map((el) => el.textContent);
+    const create = () =>
+      new MasonrySnapGridLayout(container, { items, renderItem: vi.fn(makeItem), layoutMode: 'js' });
+
+    it('inserts and prepends items without re-rendering existing ones', () => {
+      const masonry = create();
+      const [alpha] = Array.from(container.children);
+      masonry.insertAt(1, ['Delta']);
+      masonry.prepend(['Zero']);
+      expect(texts()).toEqual(['Zero', 'Alpha', 'Delta', 'Beta', 'Gamma']);
+      expect(container.children[1]).toBe(alpha);
+      // Zero, Alpha and Delta fill the first row; Beta moves into the second
+      expect((container.children[3] as HTMLElement).style.transform).toBe('translate(0px, 216px)');
+    });
+
+    it('removes items by predicate or index and returns them', () => {
+      const masonry = create();
+      expect(masonry.remove((item) => item.startsWith('B'))).toEqual(['Beta']);
+      expect(masonry.remove([0])).toEqual(['Alpha']);
+      expect(texts()).toEqual(['Gamma']);
+      expect((container.firstElementChild as HTMLElement).style.transform).toBe(
+        'translate(0px, 0px)'
+      );
+    });
+
+    it('moves an item by moving its element', () => {
+      const masonry = create();
+      const [alpha, beta, gamma] = Array.from(container.children);
+      masonry.move(0, 2);
+      expect(Array.from(container.children)).toEqual([beta, gamma, alpha]);
+      masonry.move(2, 0);
+      expect(Array.from(container.children)).toEqual([alpha, beta, gamma]);
+      masonry.move(1.5, 0);
+      expect(Array.from(container.children)).toEqual([beta, alpha, gamma]);
+      masonry.move(3, 0);
+      masonry.move(-1, 0);
+      expect(texts()).toEqual(['Beta', 'Alpha', 'Gamma']);
+    });
+
+    it('replaces a single item', () => {
+      const masonry = create();
+      const [alpha, beta] = Array.from(container.children);
+      masonry.replaceItem(1, 'Omega');
+      expect(texts()).toEqual(['Alpha', 'Omega', 'Gamma']);
+      expect(container.firstElementChild).toBe(alpha);
+      expect(beta.isConnected).toBe(false);
+    });
+
+    it('floors fractional indices and ignores NaN when inserting or replacing', () => {
+      const masonry = create();
+      masonry.insertAt(NaN, ['Zero']);
+      masonry.replaceItem(NaN, 'Zero');
+      expect(texts()).toEqual(['Alpha', 'Beta', 'Gamma']);
+      masonry.insertAt(1.5, ['Delta']);
+      expect(texts()).toEqual(['Alpha', 'Delta', 'Beta', 'Gamma']);
+      masonry.replaceItem(1.5, 'Omega');
+      expect(texts()).toEqual(['Alpha', 'Omega', 'Beta', 'Gamma']);
+      // Items and elements still line up: the second row starts with Gamma
+      expect((container.children[3] as HTMLElement).style.transform).toBe('translate(0px, 216px)');
+    });
+  });
+
+  describe('filter and sort', () => {
+    const texts = () => Array.from(container.children).map((el) => el.textContent);
+    const shown = () =>
+      Array.from(container.children)
+        .filter((el) => (el as HTMLElement).style.display !== 'none')
+        .map((el) => el.textContent);
+    const create = (options: Partial<MasonryOptions<string>> = {}) => {
+      const renderItem = vi.fn(makeItem);
+      const masonry = new MasonrySnapGridLayout(container, {
+        items,
+        renderItem,
+        layoutMode: 'js',
+        ...options,
+      });
+      return { masonry, renderItem };
+    };
+
+    it('hides filtered-out items without destroying them', () => {
+      const { masonry, renderItem } = create();
+      const [alpha, beta, gamma] = Array.from(container.children) as HTMLElement[];
+      masonry.filter((item) => item !== 'Beta');
+      expect(beta.isConnected).toBe(true);
+      expect(beta.style.display).toBe('none');
+      // Gamma takes Beta's slot
+      expect(gamma.style.transform).toBe('translate(272px, 0px)');
+      expect(masonry.getLayout().positions).toHaveLength(2);
+
+      masonry.filter(null);
+      expect(Array.from(container.children)).toEqual([alpha, beta, gamma]);
+      expect(beta.style.display).toBe('');
+      expect(gamma.style.transform).toBe('translate(544px, 0px)');
+      expect(renderItem).toHaveBeenCalledTimes(3);
+    });
+
+    it('sorts the shown items by moving their elements', () => {
+      const { masonry, renderItem } = create({ filter: (item) => item !== 'Alpha' });
+      const [beta, gamma] = Array.from(container.children) as HTMLElement[];
+      masonry.sort((a, b) => b.localeCompare(a));
+      expect(Array.from(container.children)).toEqual([gamma, beta]);
+      expect(beta.style.transform).toBe('translate(272px, 0px)');
+
+      masonry.setOptions({ filter: undefined });
+      expect(texts()).toEqual(['Gamma', 'Beta', 'Alpha']);
+      expect(renderItem).toHaveBeenCalledTimes(3);
+    });
+
+    it('applies mutations to every item and indices to the shown ones', () => {
+      const { masonry } = create({ filter: (item) => !item.startsWith('B') });
+      masonry.appendItems(['Bravo', 'Delta']);
+      expect(shown()).toEqual(['Alpha', 'Gamma', 'Delta']);
+      masonry.insertAt(1, ['Charlie']);
+      expect(masonry.remove([0])).toEqual(['Alpha']);
+      expect(shown()).toEqual(['Charlie', 'Gamma', 'Delta']);
+
+      masonry.filter(null);
+      expect(shown()).toEqual(['Beta', 'Charlie', 'Gamma', 'Bravo', 'Delta']);
+    });
+  });
+
+  it('keeps stamp elements inside the container across re-renders', () => {
+    const stamp = document.createElement('aside');
+    container.appendChild(stamp);
+    const masonry = new MasonrySnapGridLayout(container, {
+      items,
+      renderItem: makeItem,
+      stamps: [stamp],
+    });
+    masonry.updateItems(['Delta']);
+    expect(container.children).toHaveLength(2);
+    expect(container.firstElementChild).toBe(stamp);
+
+    masonry.destroy();
+    expect(container.children).toHaveLength(1);
+  });
+
+  it('uses the JS engine for order-preserving placement even when CSS masonry is supported', () => {
+    const originalSupports = CSS.supports;
+    CSS.supports = vi.fn().mockReturnValue(true);
+
+    new MasonrySnapGridLayout(container, {
+      items,
+      renderItem: makeItem,
+      placement: 'sequential',
+    });
+    expect(container.style.display).toBe('');
+    expect(container.style.position).toBe('relative');
+
+    CSS.supports = originalSupports;
+  });
+
+  it('lays out justified rows with explicit item heights', () => {
+    const originalSupports = CSS.supports;
+    CSS.supports = vi.fn().mockReturnValue(true);
+
+    new MasonrySnapGridLayout(container, {
+      items,
+      renderItem: makeItem,
+      layoutType: 'justified',
+      targetRowHeight: 200,
+      getAspectRatio: () => 2,
+    });
+    const first = container.children[0] as HTMLElement;
+    // Justified rows never use CSS masonry
+    expect(container.style.display).toBe('');
+    expect(first.style.position).toBe('absolute');
+    expect(parseFloat(first.style.width) / parseFloat(first.style.height)).toBeCloseTo(2);
+
+    CSS.supports = originalSupports;
+  });
+
+  it('shows items as placeholders until their images settle with waitForImages', () => {
+    const onImagesSettled = vi.fn();
+    const withImage = (title: string) => {
+      const el = makeItem(title);
+      const img = document.createElement('img');
+      img.src = `${title}.jpg`;
+      el.appendChild(img);
+      return el;
+    };
+    new MasonrySnapGridLayout(container, {
+      items,
+      renderItem: withImage,
+      layoutMode: 'js',
+      waitForImages: true,
+      onImagesSettled,
+    });
+    const first = container.children[0] as HTMLElement;
+    expect(first.classList.contains('msgl-item--loading')).toBe(true);
+
+    const images = container.querySelectorAll('img');
+    images[0].dispatchEvent(new Event('load'));
+    expect(first.classList.contains('msgl-item--loading')).toBe(false);
+    expect(onImagesSettled).not.toHaveBeenCalled();
+
+    images[1].dispatchEvent(new Event('load'));
+    images[2].dispatchEvent(new Event('error'));
+    expect(onImagesSettled).toHaveBeenCalledWith({ items, failed: [images[2]] });
+  });
+
+  describe('virtualize', () => {
+    // 30 items of 200px in 3 columns: rows every 216px, 10 rows, 2144px in total.
+    // jsdom viewport: 768px tall, so with overscan 300 rows up to y=1068 render.
+    const numbers = Array.from({ length: 30 }, (_, i) => i);
+    const renderTall = (n: number) => {
+      const el = makeItem(`Item ${n}`);
+      el.style.height = '200px';
+      return el;
+    };
+
+    it('keeps only the items near the viewport and the full container height', () => {
+      const renderItem = vi.fn(renderTall);
+      const masonry = new MasonrySnapGridLayout(container, {
+        items: numbers,
+        renderItem,
+        layoutMode: 'js',
+        virtualize: true,
+      });
+      expect(renderItem).toHaveBeenCalledTimes(30);
+      expect(container.children).toHaveLength(15);
+      expect(container.style.height).toBe('2144px');
+      masonry.destroy();
+    });
+
+    it('renders items lazily when their height is known up front', () => {
+      const renderItem = vi.fn(renderTall);
+      const masonry = new MasonrySnapGridLayout(container, {
+        items: numbers,
+        renderItem,
+        layoutMode: 'js',
+        virtualize: true,
+        getItemSize: () => 200,
+      });
+      expect(renderItem).toHaveBeenCalledTimes(15);
+      expect(container.style.height).toBe('2144px');
+      masonry.destroy();
+    });
+
+    it('renders items scrolled into view at their cached position', async () => {
+      const renderItem = vi.fn(renderTall);
+      const masonry = new MasonrySnapGridLayout(container, {
+        items: numbers,
+        renderItem,
+        layoutMode: 'js',
+        virtualize: true,
+      });
+      container.getBoundingClientRect = () => ({ top: -1500 }) as DOMRect;
+      window.dispatchEvent(new Event('scroll'));
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+
+      // Visible range 1200–2568: the last five rows
+      expect(container.children).toHaveLength(15);
+      expect(renderItem).toHaveBeenCalledTimes(45);
+      const first = container.children[0] as HTMLElement;
+      expect(first.textContent).toBe('Item 15');
+      expect(first.style.transform).toBe('translate(0px, 1080px)');
+      expect(container.style.height).toBe('2144px');
+      masonry.destroy();
+    });
+
+    it('keeps the first visible item in place when items are prepended', () => {
+      const scrollTo = vi.spyOn(window, 'scrollTo').mockImplementation(() => {});
+      const masonry = new MasonrySnapGridLayout(container, {
+        items: numbers,
+        renderItem: renderTall,
+        layoutMode: 'js',
+        virtualize: true,
+      });
+      // Scrolled 1500px into the grid: item 21 (row 7, y=1512) is the first visible
+      container.getBoundingClientRect = () => ({ top: -1500 }) as DOMRect;
+
+      // A prepended row moves it down by 216px
+      masonry.prepend([-3, -2, -1]);
+      expect(scrollTo).toHaveBeenCalledTimes(1);
+      expect(scrollTo).toHaveBeenCalledWith(0, 216);
+
+      masonry.setOptions({ scrollAnchoring: false });
+      masonry.prepend([-6, -5, -4]);
+      expect(scrollTo).toHaveBeenCalledTimes(1);
+      scrollTo.mockRestore();
+      masonry.destroy();
+    });
+
+    it('scrolls to items that are virtualized out of the DOM', () => {
+      const scrollTo = vi.spyOn(window, 'scrollTo').mockImplementation(() => {});
+      const masonry = new MasonrySnapGridLayout(container, {
+        items: numbers,
+        renderItem: renderTall,
+        layoutMode: 'js',
+        virtualize: true,
+      });
+
+      // Item 27: row 9 (y=1944), centered in the 768px viewport
+      masonry.scrollToIndex(27, { align: 'center', behavior: 'smooth' });
+      expect(scrollTo).toHaveBeenCalledWith({ top: 1660, behavior: 'smooth' });
+
+      masonry.scrollToIndex(30);
+      expect(scrollTo).toHaveBeenCalledTimes(1);
+      scrollTo.mockRestore();
+      masonry.destroy();
+    });
+
+    it('reports the layout of every item, rendered or not', () => {
+      const masonry = new MasonrySnapGridLayout(container, {
+        items: numbers,
+        renderItem: renderTall,
+        layoutMode: 'js',
+        virtualize: true,
+      });
+      const layout = masonry.getLayout();
+      expect(layout).toMatchObject({ columns: 3, columnWidth: 256, gutter: 16, height: 2144 });
+      expect(layout.positions).toHaveLength(30);
+      expect(masonry.getItemRect(28)).toEqual({ x: 272, y: 1944, width: 256, height: 200, column: 1 });
+      expect(masonry.getItemRect(30)).toBeNull();
+      expect(masonry.getItemAtPoint(300, 2000)).toBe(28);
+      expect(masonry.getItemsInRect({ x: 0, y: 2000, width: 300, height: 10 })).toEqual([27, 28]);
+
+      // The snapshot is a copy
+      (layout.positions[0] as { x: number }).x = 999;
+      expect(masonry.getItemRect(0)?.x).toBe(0);
+      masonry.destroy();
+    });
+
+    it('places unmeasured items with estimated heights', () => {
+      // Estimated 100px rows every 116px: rows up to y=1068 are the first ten
+      const renderItem = vi.fn(renderTall);
+      const masonry = new MasonrySnapGridLayout(container, {
+        items: Array.from({ length: 90 }, (_, i) => i),
+        renderItem,
+        layoutMode: 'js',
+        virtualize: true,
+        estimateItemHeight: () => 100,
+      });
+      expect(renderItem).toHaveBeenCalledTimes(30);
+      expect(container.children).toHaveLength(30);
+      expect(container.style.height).toBe('3464px');
+
+      // Re-layout corrects the measured items; the rest keep their estimate
+      masonry.setOptions({});
+      expect(renderItem).toHaveBeenCalledTimes(30);
+      expect(container.children).toHaveLength(15);
+      expect((container.children[3] as HTMLElement).style.transform).toBe('translate(0px, 216px)');
+      expect(container.style.height).toBe('4464px');
+      masonry.destroy();
+    });
+  });
+
+  it('calls onEndReached once per items length when the shortest column nears the viewport', async () => {
+    const renderTall = (n: number) => {
+      const el = makeItem(`Item ${n}`);
+      el.style.height = '200px';
+      return el;
+    };
+    const onEndReached = vi.fn();
+    const masonry = new MasonrySnapGridLayout(container, {
+      items: Array.from({ length: 30 }, (_, i) => i),
+      renderItem: renderTall,
+      layoutMode: 'js',
+      onEndReached,
+    });
+    // Columns end at 2144px; the viewport (768px) ends far above 2144 - 300
+    expect(onEndReached).not.toHaveBeenCalled();
+
+    const scroll = async (top: number) => {
+      container.getBoundingClientRect = () => ({ top: -top }) as DOMRect;
+      window.dispatchEvent(new Event('scroll'));
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+    };
+    await scroll(1100);
+    expect(onEndReached).toHaveBeenCalledTimes(1);
+    await scroll(1200);
+    expect(onEndReached).toHaveBeenCalledTimes(1);
+
+    // One more item: the shortest columns still end at 2144px
+    masonry.appendItems([30]);
+    expect(onEndReached).toHaveBeenCalledTimes(2);
+    masonry.destroy();
+  });
+
+  describe('animations', () => {
+    const animate = vi.fn(() => ({ onfinish: null, oncancel: null, cancel() {}, finish() {} }));
+    const originalRect = HTMLElement.prototype.getBoundingClientRect;
+
+    beforeEach(() => {
+      animate.mockClear();
+      Element.prototype.animate = animate as unknown as Element['animate'];
+      // Boxes follow the JS engine's translate and the left/top of pinned elements
+      HTMLElement.prototype.getBoundingClientRect = function (this: HTMLElement) {
+        const [, x = '0', y = '0'] = /translate\((.+)px, (.+)px\)/.exec(this.style.transform) ?? [];
+        const left = Number(x) + (parseFloat(this.style.left) || 0);
+        const top = Number(y) + (parseFloat(this.style.top) || 0);
+        return { left, top, width: 256, height: 200 } as DOMRect;
+      };
+    });
+
+    afterEach(() => {
+      delete (Element.prototype as Partial<Element>).animate;
+      HTMLElement.prototype.getBoundingClientRect = originalRect;
+    });
+
+    const callsOf = (el: Element) =>
+      animate.mock.instances.flatMap((context, i) =>
+        context === el ? [animate.mock.calls[i] as unknown[]] : []
+      );
+
+    it('fades removed items out over their slot and slides the others', () => {
+      const masonry = new MasonrySnapGridLayout(container, {
+        items,
+        renderItem: makeItem,
+        layoutMode: 'js',
+        animations: { duration: 300 },
+      });
+      expect(animate).not.toHaveBeenCalled();
+      const [alpha, beta] = Array.from(container.children) as HTMLElement[];
+      expect(beta.style.transition).toBe('');
+
+      masonry.remove([0]);
+      // Alpha stays pinned at its old box until the fade ends
+      expect(alpha.parentElement).toBe(container);
+      expect(alpha.style.left).toBe('0px');
+      expect(callsOf(alpha)[0]).toEqual([
+        [{ opacity: 1 }, { opacity: 0 }],
+        { duration: 300, easing: 'ease', delay: 0, fill: 'both' },
+      ]);
+      expect(callsOf(beta)[0][0]).toEqual([{ translate: '272px 0px' }, { translate: '0px 0px' }]);
+
+      const fade = animate.mock.results[0].value as { onfinish: () => void };
+      fade.onfinish();
+      expect(alpha.isConnected).toBe(false);
+      masonry.destroy();
+    });
+
+    it('plays the enter animation for added items with a stagger', () => {
+      const masonry = new MasonrySnapGridLayout(container, {
+        items,
+        renderItem: makeItem,
+        layoutMode: 'js',
+        animations: { enter: 'fade', stagger: 50 },
+      });
+      masonry.appendItems(['Delta', 'Epsilon']);
+      const [delta, epsilon] = Array.from(container.children).slice(3);
+      expect(animate).toHaveBeenCalledTimes(2);
+      expect(callsOf(delta)[0]).toEqual([
+        [{ opacity: 0 }, { opacity: 1 }],
+        { duration: 400, easing: 'ease', delay: 0, fill: 'backwards' },
+      ]);
+      expect(callsOf(epsilon)[0][1]).toMatchObject({ delay: 50 });
+      masonry.destroy();
+    });
+
+    it('fades filtered-out items before hiding them and enters them when shown again', () => {
+      const masonry = new MasonrySnapGridLayout(container, {
+        items,
+        renderItem: makeItem,
+        layoutMode: 'js',
+        animations: true,
+      });
+      const [alpha, beta] = Array.from(container.children) as HTMLElement[];
+      masonry.filter((item) => item !== 'Alpha');
+      expect(alpha.style.display).toBe('');
+      expect(callsOf(beta)[0][0]).toEqual([{ translate: '272px 0px' }, { translate: '0px 0px' }]);
+
+      const fade = animate.mock.results[0].value as { onfinish: () => void };
+      fade.onfinish();
+      expect(alpha.style.display).toBe('none');
+      expect(alpha.style.position).toBe('absolute');
+
+      masonry.filter(null);
+      expect(alpha.style.display).toBe('');
+      expect(callsOf(alpha)[1][0]).toEqual([
+        { opacity: 0, scale: '0.85' },
+        { opacity: 1, scale: '1' },
+      ]);
+      masonry.destroy();
+    });
+  });
+
+  describe('events', () => {
+    it('emits layoutComplete with a snapshot and columnsChange when the count changes', () => {
+      const onLayout = vi.fn();
+      const onColumns = vi.fn();
+      const masonry = new MasonrySnapGridLayout(container, {
+        items,
+        renderItem: makeItem,
+        layoutMode: 'js',
+        on: { columnsChange: onColumns },
+      });
+      expect(onColumns).toHaveBeenLastCalledWith({ columns: 3, previous: 0 });
+
+      masonry.on('layoutComplete', onLayout);
+      masonry.setOptions({ gutter: 0, minColWidth: 400 });
+      expect(onColumns).toHaveBeenLastCalledWith({ columns: 2, previous: 3 });
+      expect(onLayout).toHaveBeenCalledWith(
+        expect.objectContaining({ columns: 2, columnWidth: 400, height: 400 })
+      );
+
+      masonry.off('layoutComplete', onLayout);
+      masonry.setOptions({});
+      expect(onLayout).toHaveBeenCalledTimes(1);
+      expect(onColumns).toHaveBeenCalledTimes(2);
+      masonry.destroy();
+    });
+
+    it('emits itemsRendered and itemRemoved with the item of each element', () => {
+      const onRendered = vi.fn();
+      const onRemoved = vi.fn();
+      const masonry = new MasonrySnapGridLayout(container, {
+        items,
+        renderItem: makeItem,
+        layoutMode: 'js',
+        on: { itemsRendered: onRendered },
+      });
+      expect(onRendered).toHaveBeenCalledWith({
+        items,
+        elements: Array.from(container.children),
+      });
+
+      masonry.once('itemRemoved', onRemoved);
+      const beta = container.children[1];
+      masonry.remove([1]);
+      masonry.remove([0]);
+      expect(onRemoved).toHaveBeenCalledTimes(1);
+      expect(onRemoved).toHaveBeenCalledWith({ item: 'Beta', element: beta });
+
+      masonry.appendItems(['Delta']);
+      expect(onRendered).toHaveBeenLastCalledWith({
+        items: ['Delta'],
+        elements: [container.lastElementChild],
+      });
+      masonry.destroy();
+    });
+
+    it('emits engineChange when setOptions switches engines', () => {
+      const onEngine = vi.fn();
+      const masonry = new MasonrySnapGridLayout(container, { items, renderItem: makeItem, layoutMode: 'js' });
+      masonry.on('engineChange', onEngine);
+      masonry.setOptions({ gutter: 8 });
+      expect(onEngine).not.toHaveBeenCalled();
+
+      masonry.setOptions({ layoutType: 'justified' });
+      expect(onEngine).toHaveBeenCalledWith({ engine: 'justified', previous: 'masonry' });
+      masonry.destroy();
+    });
+  });
+
   it('uses default options when none provided', () => {
     const masonry = new MasonrySnapGridLayout(container, {
       items: [],
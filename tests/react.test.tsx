@@ -1,8 +1,8 @@
-import React from 'react';
+import React, { createRef } from 'react';
 import { render, screen, act } from '@testing-library/react';
 import { renderToString } from 'react-dom/server';
 import { describe, it, expect, vi, afterEach } from 'vitest';
-import MasonrySnapGrid from '../src/react/MasonrySnapGrid';
+import MasonrySnapGrid, { type MasonrySnapGridHandle } from '../src/react/MasonrySnapGrid';
 
 type Item = { id: number; title: string; height: number };
 
@@ -117,6 +117,313 @@ describe('MasonrySnapGrid layoutMode', () => {
   });
 });
 
+// ── Column spans ─────────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid getItemSpan', () => {
+  it('widens spanning items in JS mode', async () => {
+    render(
+      <MasonrySnapGrid
+        items={makeItems(3)}
+        renderItem={renderItem}
+        layoutMode="js"
+        getItemSpan={(item) => (item.id === 0 ? 2 : 1)}
+      />
+    );
+    await act(async () => {});
+    const wide = screen.getByTestId('item-0').parentElement as HTMLElement;
+    const narrow = screen.getByTestId('item-1').parentElement as HTMLElement;
+    expect(wide.style.width).toBe('528px');
+    expect(narrow.style.width).toBe('256px');
+  });
+
+  it('emits grid-column span in CSS masonry mode', async () => {
+    const originalSupports = CSS.supports;
+    CSS.supports = vi.fn().mockReturnValue(true);
+
+    render(
+      <MasonrySnapGrid
+        items={makeItems(2)}
+        renderItem={renderItem}
+        getItemSpan={(item) => (item.id === 0 ? 2 : 1)}
+      />
+    );
+    await act(async () => {});
+    const wide = screen.getByTestId('item-0').parentElement as HTMLElement;
+    expect(wide.style.gridColumn).toBe('span 2');
+
+    CSS.supports = originalSupports;
+  });
+});
+
+// ── Breakpoints ──────────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid breakpoints', () => {
+  const breakpoints = { 0: { cols: 1, gutter: 8 }, 640: { cols: 2 } };
+
+  it('includes generated grid CSS in server-rendered HTML', () => {
+    const html = renderToString(
+      <MasonrySnapGrid items={makeItems(2)} renderItem={renderItem} breakpoints={breakpoints} />
+    );
+    expect(html).toContain('<style>');
+    expect(html).toContain('@media (min-width:640px)');
+    expect(html).toMatch(/class="msgl-container msgl-container--ssr msgl-grid-\w+"/);
+  });
+
+  it('resolves columns from breakpoints in JS mode', async () => {
+    render(
+      <MasonrySnapGrid
+        items={makeItems(3)}
+        renderItem={renderFixedItem}
+        layoutMode="js"
+        breakpoints={breakpoints}
+      />
+    );
+    await act(async () => {});
+    // 800px container → 2 cols of (800 - 8) / 2 = 396px, gutter 8
+    const second = screen.getByTestId('item-1').parentElement as HTMLElement;
+    expect(second.style.width).toBe('396px');
+    expect(second.style.transform).toBe('translate(404px, 0px)');
+  });
+});
+
+// ── Size hints ───────────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid getItemSize', () => {
+  it('positions hinted items from their known size', async () => {
+    render(
+      <MasonrySnapGrid
+        items={makeItems(4)}
+        renderItem={renderFixedItem}
+        layoutMode="js"
+        getItemSize={() => 50}
+      />
+    );
+    await act(async () => {});
+    // Measured items would be 200px tall; the hint makes the second row start at 50 + 16
+    const wrapper = screen.getByTestId('item-3').parentElement as HTMLElement;
+    expect(wrapper.style.transform).toBe('translate(0px, 66px)');
+  });
+});
+
+// ── Placement ────────────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid placement', () => {
+  it('uses JS positioning for placement="sequential" even when CSS masonry is supported', async () => {
+    const originalSupports = CSS.supports;
+    CSS.supports = vi.fn().mockReturnValue(true);
+
+    const { container } = render(
+      <MasonrySnapGrid items={makeItems(4)} renderItem={renderFixedItem} placement="sequential" />
+    );
+    await act(async () => {});
+    expect(container.firstElementChild?.className).toContain('msgl-container--js');
+    // 3 columns → item 3 starts the second row in column 0
+    const wrapper = screen.getByTestId('item-3').parentElement as HTMLElement;
+    expect(wrapper.style.transform).toBe('translate(0px, 216px)');
+
+    CSS.supports = originalSupports;
+  });
+});
+
+// ── Item keys ────────────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid getItemKey', () => {
+  it('keeps item DOM nodes when items are reordered', async () => {
+    const items = makeItems(3);
+    const getItemKey = (item: Item) => item.id;
+    const { rerender } = render(
+      <MasonrySnapGrid items={items} renderItem={renderItem} layoutMode="js" getItemKey={getItemKey} />
+    );
+    await act(async () => {});
+    const first = screen.getByTestId('item-0').parentElement;
+
+    rerender(
+      <MasonrySnapGrid
+        items={[...items].reverse()}
+        renderItem={renderItem}
+        layoutMode="js"
+        getItemKey={getItemKey}
+      />
+    );
+    await act(async () => {});
+    const moved = screen.getByTestId('item-0').parentElement as HTMLElement;
+    expect(moved).toBe(first);
+    // Now last in a single row of three columns
+    expect(moved.style.transform).toBe('translate(544px, 0px)');
+  });
+});
+
+// ── Incremental append ───────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid append', () => {
+  it('measures only appended items and keeps existing positions', async () => {
+    const items = makeItems(3);
+    const { rerender } = render(
+      <MasonrySnapGrid items={items} renderItem={renderFixedItem} layoutMode="js" />
+    );
+    await act(async () => {});
+
+    const measured: HTMLElement[] = [];
+    const spy = vi
+      .spyOn(HTMLElement.prototype, 'offsetHeight', 'get')
+      .mockImplementation(function (this: HTMLElement) {
+        measured.push(this);
+        return 200;
+      });
+    rerender(
+      <MasonrySnapGrid
+        items={[...items, { id: 3, title: 'Item 3', height: 200 }]}
+        renderItem={renderFixedItem}
+        layoutMode="js"
+      />
+    );
+    await act(async () => {});
+    spy.mockRestore();
+
+    const appended = screen.getByTestId('item-3').parentElement as HTMLElement;
+    expect(measured).toEqual([appended]);
+    expect(appended.style.transform).toBe('translate(0px, 216px)');
+  });
+});
+
+// ── Infinite scroll ──────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid onEndReached', () => {
+  it('fires once per items length while the shortest column is near the viewport', async () => {
+    const onEndReached = vi.fn();
+    const props = { renderItem: renderFixedItem, layoutMode: 'js' as const, onEndReached };
+    const items = makeItems(3);
+
+    // One row (200px) inside the 768px viewport
+    const { rerender } = render(<MasonrySnapGrid items={items} {...props} />);
+    await act(async () => {});
+    expect(onEndReached).toHaveBeenCalledTimes(1);
+
+    rerender(<MasonrySnapGrid items={[...items]} {...props} />);
+    await act(async () => {});
+    expect(onEndReached).toHaveBeenCalledTimes(1);
+
+    // Ten rows end at 2144px, beyond 768 + 300
+    rerender(<MasonrySnapGrid items={makeItems(30)} {...props} />);
+    await act(async () => {});
+    expect(onEndReached).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ── Stamps ───────────────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid stamps', () => {
+  it('flows items around stamps using JS positioning', async () => {
+    const originalSupports = CSS.supports;
+    CSS.supports = vi.fn().mockReturnValue(true);
+
+    const { container } = render(
+      <MasonrySnapGrid
+        items={makeItems(2)}
+        renderItem={renderFixedItem}
+        stamps={[{ x: 0, y: 0, width: 256, height: 100 }]}
+      />
+    );
+    await act(async () => {});
+    expect(container.firstElementChild?.className).toContain('msgl-container--js');
+    // Column 0 is stamped, so the first item starts in column 1
+    const wrapper = screen.getByTestId('item-0').parentElement as HTMLElement;
+    expect(wrapper.style.transform).toBe('translate(272px, 0px)');
+
+    CSS.supports = originalSupports;
+  });
+});
+
+// ── Baseline snapping ────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid snapUnit', () => {
+  it('rounds item slots up to whole rows in JS mode', async () => {
+    render(
+      <MasonrySnapGrid items={makeItems(4)} renderItem={renderFixedItem} layoutMode="js" snapUnit={50} />
+    );
+    await act(async () => {});
+    // 200px items take 4 rows of 50px + 16px gutter → the second row starts at 4 * 66
+    const wrapper = screen.getByTestId('item-3').parentElement as HTMLElement;
+    expect(wrapper.style.transform).toBe('translate(0px, 264px)');
+  });
+
+  it('spans grid rows in CSS mode', async () => {
+    const originalSupports = CSS.supports;
+    CSS.supports = vi.fn().mockReturnValue(true);
+
+    const { container } = render(
+      <MasonrySnapGrid items={makeItems(2)} renderItem={renderFixedItem} snapUnit={50} />
+    );
+    await act(async () => {});
+    expect(container.firstElementChild?.className).toContain('msgl-container--snap');
+    const wrapper = screen.getByTestId('item-0').parentElement as HTMLElement;
+    expect(wrapper.style.gridRow).toBe('span 4');
+
+    CSS.supports = originalSupports;
+  });
+});
+
+// ── Justified rows ───────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid layoutType="justified"', () => {
+  it('sizes items from their aspect ratio and never uses CSS masonry', async () => {
+    const originalSupports = CSS.supports;
+    CSS.supports = vi.fn().mockReturnValue(true);
+
+    const { container } = render(
+      <MasonrySnapGrid
+        items={makeItems(3)}
+        renderItem={renderItem}
+        layoutType="justified"
+        targetRowHeight={200}
+        getAspectRatio={() => 1.5}
+      />
+    );
+    await act(async () => {});
+
+    const root = container.firstElementChild as HTMLElement;
+    expect(root.className).toContain('msgl-container--justified');
+    expect(root.className).not.toContain('msgl-container--css');
+
+    const wrapper = screen.getByTestId('item-0').parentElement as HTMLElement;
+    expect(parseFloat(wrapper.style.width) / parseFloat(wrapper.style.height)).toBeCloseTo(1.5);
+
+    CSS.supports = originalSupports;
+  });
+});
+
+// ── Waiting for images ─────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid waitForImages', () => {
+  it('shows items as placeholders until their images settle', async () => {
+    const onImagesSettled = vi.fn();
+    const items = makeItems(2);
+    const { container } = render(
+      <MasonrySnapGrid
+        items={items}
+        renderItem={(item) => <img src={`${item.id}.jpg`} data-testid={`item-${item.id}`} />}
+        layoutMode="js"
+        waitForImages
+        onImagesSettled={onImagesSettled}
+      />
+    );
+    await act(async () => {});
+
+    const wrapper = screen.getByTestId('item-0').parentElement as HTMLElement;
+    expect(wrapper.className).toContain('msgl-item--loading');
+
+    const images = container.querySelectorAll('img');
+    await act(async () => {
+      images[0].dispatchEvent(new Event('load'));
+      images[1].dispatchEvent(new Event('error'));
+    });
+
+    expect(wrapper.className).not.toContain('msgl-item--loading');
+    expect(onImagesSettled).toHaveBeenCalledOnce();
+    expect(onImagesSettled).toHaveBeenCalledWith({ items, failed: [images[1]] });
+  });
+});
+
 // ── Items update ──────────────────────────────────────────────────────────────
 
 describe('MasonrySnapGrid items update', () => {
@@ -145,6 +452,138 @@ describe('MasonrySnapGrid items update', () => {
   });
 });
 
+describe('MasonrySnapGrid filter and sort', () => {
+  it('hides filtered-out items without unmounting them and sorts the rest', async () => {
+    const onItemRemoved = vi.fn();
+    const items = makeItems(4);
+    const props = {
+      items,
+      renderItem: renderFixedItem,
+      getItemKey: (item: Item) => item.id,
+      layoutMode: 'js' as const,
+      onItemRemoved,
+    };
+    const { rerender } = render(<MasonrySnapGrid {...props} />);
+    await act(async () => {});
+    const wrapperOf = (id: number) => screen.getByTestId(`item-${id}`).parentElement!;
+    const [first, second, third] = [0, 1, 2].map(wrapperOf);
+
+    const isEven = (item: Item) => item.id % 2 === 0;
+    rerender(<MasonrySnapGrid {...props} filter={isEven} />);
+    await act(async () => {});
+    expect(wrapperOf(1)).toBe(second);
+    expect(second.style.display).toBe('none');
+    expect(third.style.transform).toBe('translate(272px, 0px)');
+
+    const byIdDesc = (a: Item, b: Item) => b.id - a.id;
+    rerender(<MasonrySnapGrid {...props} sort={byIdDesc} />);
+    await act(async () => {});
+    expect(wrapperOf(1)).toBe(second);
+    expect(second.style.display).toBe('');
+    expect(wrapperOf(3).style.transform).toBe('translate(0px, 0px)');
+    expect(first.style.transform).toBe('translate(0px, 216px)');
+    expect(onItemRemoved).not.toHaveBeenCalled();
+  });
+});
+
+// ── Lifecycle callbacks ─────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid lifecycle callbacks', () => {
+  it('reports layouts, column changes and mounted or removed items', async () => {
+    const onLayoutComplete = vi.fn();
+    const onColumnsChange = vi.fn();
+    const onItemsRendered = vi.fn();
+    const onItemRemoved = vi.fn();
+    const items = makeItems(4);
+    const props = {
+      renderItem: renderFixedItem,
+      layoutMode: 'js' as const,
+      onLayoutComplete,
+      onColumnsChange,
+      onItemsRendered,
+      onItemRemoved,
+    };
+    const { rerender } = render(<MasonrySnapGrid items={items} {...props} />);
+    await act(async () => {});
+
+    expect(onColumnsChange).toHaveBeenCalledWith({ columns: 3, previous: 0 });
+    expect(onLayoutComplete).toHaveBeenLastCalledWith(
+      expect.objectContaining({ columns: 3, height: 416 })
+    );
+    expect(onItemsRendered).toHaveBeenCalledTimes(1);
+    expect(onItemsRendered.mock.calls[0][0].items).toEqual(items);
+
+    const removed = screen.getByTestId('item-3').parentElement;
+    rerender(<MasonrySnapGrid items={items.slice(0, 3)} {...props} minColWidth={400} gutter={0} />);
+    await act(async () => {});
+
+    expect(onItemRemoved).toHaveBeenCalledWith({ item: items[3], element: removed });
+    expect(onItemsRendered).toHaveBeenCalledTimes(1);
+    expect(onColumnsChange).toHaveBeenLastCalledWith({ columns: 2, previous: 3 });
+    expect(onLayoutComplete).toHaveBeenLastCalledWith(
+      expect.objectContaining({ columns: 2, columnWidth: 400, height: 400 })
+    );
+  });
+
+  it('reports engine switches after mount', async () => {
+    const onEngineChange = vi.fn();
+    const props = { items: makeItems(3), renderItem, layoutMode: 'js' as const, onEngineChange };
+    const { rerender } = render(<MasonrySnapGrid {...props} />);
+    await act(async () => {});
+    expect(onEngineChange).not.toHaveBeenCalled();
+
+    rerender(<MasonrySnapGrid {...props} layoutType="justified" />);
+    await act(async () => {});
+    expect(onEngineChange).toHaveBeenCalledWith({ engine: 'justified', previous: 'masonry' });
+  });
+});
+
+// ── Animations ──────────────────────────────────────────────────────────────────
+
+describe('MasonrySnapGrid animations', () => {
+  const originalRect = HTMLElement.prototype.getBoundingClientRect;
+
+  afterEach(() => {
+    delete (Element.prototype as Partial<Element>).animate;
+    HTMLElement.prototype.getBoundingClientRect = originalRect;
+  });
+
+  it('fades removed items out in place and slides the others', async () => {
+    const animate = vi.fn(() => ({ onfinish: null, oncancel: null, cancel() {}, finish() {} }));
+    Element.prototype.animate = animate as unknown as Element['animate'];
+    HTMLElement.prototype.getBoundingClientRect = function (this: HTMLElement) {
+      const [, x = '0', y = '0'] = /translate\((.+)px, (.+)px\)/.exec(this.style.transform) ?? [];
+      const left = Number(x) + (parseFloat(this.style.left) || 0);
+      const top = Number(y) + (parseFloat(this.style.top) || 0);
+      return { left, top, width: 256, height: 200 } as DOMRect;
+    };
+    const callOf = (el: Element) => animate.mock.calls[animate.mock.instances.indexOf(el)];
+
+    const items = makeItems(3);
+    const props = {
+      renderItem: renderFixedItem,
+      getItemKey: (item: Item) => item.id,
+      layoutMode: 'js' as const,
+      animations: true,
+    };
+    const { rerender, container } = render(<MasonrySnapGrid items={items} {...props} />);
+    await act(async () => {});
+    expect(animate).not.toHaveBeenCalled();
+
+    const grid = container.firstElementChild as HTMLElement;
+    const removed = screen.getByTestId('item-0').parentElement as HTMLElement;
+    const moved = screen.getByTestId('item-1').parentElement as HTMLElement;
+    expect(moved.className).toBe('msgl-item');
+
+    rerender(<MasonrySnapGrid items={items.slice(1)} {...props} />);
+    await act(async () => {});
+
+    expect(removed.parentElement).toBe(grid);
+    expect(callOf(removed)[0]).toEqual([{ opacity: 1 }, { opacity: 0 }]);
+    expect(callOf(moved)[0]).toEqual([{ translate: '272px 0px' }, { translate: '0px 0px' }]);
+  });
+});
+
 // ── ResizeObserver ─────────────────────────────────────────────────────────────
 
 describe('MasonrySnapGrid ResizeObserver', () => {
@@ -255,6 +694,122 @@ describe('MasonrySnapGrid virtualization', () => {
     }
   });
 
+  it('virtualizes against a custom scrollElement', async () => {
+    const panel = document.createElement('div');
+    Object.defineProperty(panel, 'clientHeight', { value: 300, configurable: true });
+    Object.defineProperty(panel, 'scrollTop', { value: 0, writable: true, configurable: true });
+
+    const { container } = render(
+      <MasonrySnapGrid
+        items={makeItems(TOTAL)}
+        renderItem={renderFixedItem}
+        layoutMode="js"
+        virtualize
+        overscan={0}
+        scrollElement={() => panel}
+      />
+    );
+    await act(async () => {});
+    // The grid sits at the top of the panel's content and moves up as it scrolls
+    const root = container.firstElementChild as HTMLElement;
+    root.getBoundingClientRect = () => ({ top: -panel.scrollTop }) as DOMRect;
+
+    // Panel viewport 0–300: rows 0 and 1
+    expect(screen.getByTestId('item-5')).toBeInTheDocument();
+    expect(screen.queryByTestId('item-6')).not.toBeInTheDocument();
+
+    await act(async () => {
+      panel.scrollTop = 700;
+      panel.dispatchEvent(new Event('scroll'));
+    });
+
+    // Panel viewport 700–1000: rows 3 and 4
+    expect(screen.queryByTestId('item-8')).not.toBeInTheDocument();
+    expect(screen.getByTestId('item-9')).toBeInTheDocument();
+    expect(screen.getByTestId('item-14')).toBeInTheDocument();
+  });
+
+  it('scrolls to a virtualized item through the ref handle', async () => {
+    const panel = document.createElement('div');
+    Object.defineProperty(panel, 'clientHeight', { value: 300, configurable: true });
+    panel.scrollTo = vi.fn() as typeof panel.scrollTo;
+    const ref = createRef<MasonrySnapGridHandle>();
+
+    render(
+      <MasonrySnapGrid
+        ref={ref}
+        items={makeItems(TOTAL)}
+        renderItem={renderFixedItem}
+        layoutMode="js"
+        virtualize
+        overscan={0}
+        scrollElement={() => panel}
+      />
+    );
+    await act(async () => {});
+    expect(screen.queryByTestId('item-17')).not.toBeInTheDocument();
+
+    // Row 5 (y=1080) aligned with the bottom of the 300px panel
+    ref.current!.scrollToIndex(17, { align: 'end' });
+    expect(panel.scrollTo).toHaveBeenCalledWith({ top: 980, behavior: undefined });
+  });
+
+  it('exposes the layout of virtualized items through the ref handle', async () => {
+    const ref = createRef<MasonrySnapGridHandle>();
+    render(
+      <MasonrySnapGrid
+        ref={ref}
+        items={makeItems(TOTAL)}
+        renderItem={renderFixedItem}
+        layoutMode="js"
+        virtualize
+      />
+    );
+    await act(async () => {});
+
+    const layout = ref.current!.getLayout();
+    expect(layout).toMatchObject({ columns: 3, columnWidth: 256, gutter: 16, height: 1280 });
+    expect(layout.positions).toHaveLength(TOTAL);
+    expect(ref.current!.getItemRect(17)).toEqual({
+      x: 544, y: 1080, width: 256, height: 200, column: 2,
+    });
+    expect(ref.current!.getItemAtPoint(600, 1100)).toBe(17);
+    expect(ref.current!.getItemAtPoint(260, 1100)).toBe(-1);
+    expect(ref.current!.getItemsInRect({ x: 0, y: 1070, width: 800, height: 20 })).toEqual([
+      15, 16, 17,
+    ]);
+  });
+
+  it('keeps the first visible item in place when items are prepended', async () => {
+    const panel = document.createElement('div');
+    Object.defineProperty(panel, 'clientHeight', { value: 300, configurable: true });
+    Object.defineProperty(panel, 'scrollTop', { value: 0, writable: true, configurable: true });
+    const items = makeItems(30);
+    const props = {
+      renderItem: renderFixedItem,
+      getItemKey: (item: Item) => item.id,
+      layoutMode: 'js' as const,
+      virtualize: true,
+      scrollElement: () => panel,
+    };
+
+    const { container, rerender } = render(<MasonrySnapGrid items={items} {...props} />);
+    await act(async () => {});
+    const root = container.firstElementChild as HTMLElement;
+    root.getBoundingClientRect = () => ({ top: -panel.scrollTop }) as DOMRect;
+    await act(async () => {
+      panel.scrollTop = 1500;
+      panel.dispatchEvent(new Event('scroll'));
+    });
+
+    // Item 21 (row 7, y=1512) is the first visible; a prepended row moves it by 216px
+    const prepended = [-3, -2, -1].map((id) => ({ id, title: `Item ${id}`, height: 200 }));
+    rerender(<MasonrySnapGrid items={[...prepended, ...items]} {...props} />);
+    await act(async () => {});
+
+    expect(panel.scrollTop).toBe(1716);
+  });
+
   it('preserves the full container height even when items are virtualized', async () => {
     const { container } = render(
       <MasonrySnapGrid
@@ -272,6 +827,63 @@ describe('MasonrySnapGrid virtualization', () => {
     expect(height).toBe(1280);
   });
 
+  it('places unmeasured items with estimateItemHeight and corrects them once measured', async () => {
+    const { container } = render(
+      <MasonrySnapGrid
+        items={makeItems(90)}
+        renderItem={renderFixedItem}
+        layoutMode="js"
+        virtualize
+        estimateItemHeight={() => 100}
+      />
+    );
+    await act(async () => {});
+
+    // The first ten measured rows use 216px steps, the other twenty keep 116px
+    expect(screen.getByTestId('item-14')).toBeInTheDocument();
+    expect(screen.queryByTestId('item-15')).not.toBeInTheDocument();
+    expect(screen.getByTestId('item-3').parentElement!.style.transform).toBe(
+      'translate(0px, 216px)'
+    );
+    const root = container.firstElementChild as HTMLElement;
+    expect(root.style.height).toBe('4464px');
+  });
+
+  it('mounts only the items placed near the viewport by estimates', async () => {
+    const render1000 = vi.fn(renderFixedItem);
+    const items = makeItems(1000);
+    const { rerender } = render(
+      <MasonrySnapGrid
+        items={items}
+        renderItem={render1000}
+        layoutMode="js"
+        virtualize
+        estimateItemHeight={() => 200}
+      />
+    );
+    await act(async () => {});
+
+    // Rows 0-4 (y = 0..864) are the only ones near the viewport
+    const rendered = () => new Set(render1000.mock.calls.map(([item]) => item.id));
+    expect([...rendered()].sort((a, b) => a - b)).toEqual([...Array(15).keys()]);
+    expect(render1000.mock.calls.length).toBeLessThan(100);
+
+    // Replacing the items places them from estimates too
+    render1000.mockClear();
+    rerender(
+      <MasonrySnapGrid
+        items={[...items].reverse()}
+        renderItem={render1000}
+        layoutMode="js"
+        virtualize
+        estimateItemHeight={() => 200}
+      />
+    );
+    await act(async () => {});
+    expect(rendered().size).toBeLessThanOrEqual(15);
+    expect(screen.getByTestId('item-999')).toBeInTheDocument();
+  });
+
   it('does not virtualize items when virtualize=false (default)', async () => {
     render(
       <MasonrySnapGrid